@@ -1,24 +1,92 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import JSZip from 'jszip';
-import { 
-    generateRevisedImage, 
-    generateRejuvenatedPrompt, 
-    createCharacterBible,
-    analyzeSceneImage,
-    identifyConsistentCharacter
-} from './services/geminiService';
-
-type SourceImage = { fileName: string; base64: string; mimeType: string };
-type TextFile = { name: string; content: string };
-type RejuvenatedItem = { originalName: string; newName: string; base64: string; prompt: string };
+import { buildProductionArchive } from './services/exportService';
+import { configureProvider, DEFAULT_PROVIDER_SETTINGS, ProviderSettings } from './services/providers';
+import { describeError, IngestError } from './services/errors';
+import { errorDetails, getLogEvents, LogEvent, logEvent, resetLog, setLogListener, setLogStage, toJsonl } from './services/logService';
+import { avatarForCharacter, EMPTY_CAST, normalizeName } from './services/castService';
+import { configureScheduler, DEFAULT_SCHEDULER_SETTINGS, SchedulerSettings, setRetryListener } from './services/scheduler';
+import { createRunControl, RunControl, setActiveRun } from './services/runControl';
+import { ArchiveRole, ArchiveSource, assignRole, countContents, DuplicateEntry, ingestArchives, isArchiveFile, openArchive, OpenedArchive, sourcesFromDrop } from './services/ingestService';
+import { alignStory, analyzeScript, beatOf, buildFrameMeta, frameImages, imageTemplates, outputNames, PipelineContext, PipelineListener, planFrames, produceFrames, renderCheckedFrame, usageOf } from './services/pipeline';
+import { buildIngestReport, compareFrameNames } from './services/sidecarService';
+import { clearRun, loadRun, saveCheckpoint, saveFrameResult, SavedRun, updateCheckpoint } from './services/runStore';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import SchedulerSettingsPanel from './components/SchedulerSettingsPanel';
+import ReviewGallery, { RegenerateOptions } from './components/ReviewGallery';
+import CastMappingTable from './components/CastMappingTable';
+import BibleEditor from './components/BibleEditor';
+import IngestReportPanel from './components/IngestReportPanel';
+import ArchiveRolePanel from './components/ArchiveRolePanel';
+import PresentationPlayer from './components/PresentationPlayer';
+import FrameFormatPanel from './components/FrameFormatPanel';
+import ConsistencySettingsPanel from './components/ConsistencySettingsPanel';
+import CostSettingsPanel from './components/CostSettingsPanel';
+import PlanTable from './components/PlanTable';
+import EventLogConsole from './components/EventLogConsole';
+import StyleLibraryPanel from './components/StyleLibraryPanel';
+import StoryBeatsPanel from './components/StoryBeatsPanel';
+import { buildScreening, isAudioFile, matchSceneAudio } from './services/screeningService';
+import { isVideoExportSupported, renderScreeningVideo } from './services/videoExportService';
+import { buildStoryboard, buildTimeline, measureAudioDurations } from './services/timelineService';
+import { toCmx3600, toEdlCsv, toSrt, toWebVtt } from './services/timelineExportService';
+import { generateVoiceTrack } from './services/voiceService';
+import { configurePromptTemplates, loadPromptTemplates } from './services/promptTemplateService';
+import { DEFAULT_CONSISTENCY_SETTINGS, ConsistencySettings, formatConsistency } from './services/consistencyService';
+import { configureCosts, CostSettings, DEFAULT_COST_SETTINGS, formatCost, formatTokens, getUsageEntries, resetUsage, setUsageListener, summarizeUsage, UsageSummary } from './services/usageService';
+import { formatIdentities } from './services/identityService';
+import { countPlanned, FramePlan, toPlanCsv, toPlanJson } from './services/planService';
+import { parseStoryMap, resolveFrameBeats } from './services/storyService';
+import { DEFAULT_BASE_STYLE, DEFAULT_STYLE_LIBRARY, formatStyleRule, resolveFrameStyle, StyleLibrary } from './services/styleService';
+import { conformImage, DEFAULT_FRAME_FORMAT, FrameFormat } from './services/frameFormatService';
+import { AnalyzedCharacter, CastMapping, RejuvenatedItem, ReviewDecision, RunInterruption, RunStage, Script, SourceImage, TextFile } from './types';
+
+const PROVIDER_SETTINGS_KEY = 'bs14.providerSettings';
+const SCHEDULER_SETTINGS_KEY = 'bs14.schedulerSettings';
+const CONSISTENCY_SETTINGS_KEY = 'bs14.consistencySettings';
+const COST_SETTINGS_KEY = 'bs14.costSettings';
+
+const loadSettings = <T,>(key: string, defaults: T, merge: (saved: T) => T): T => {
+    try {
+        const saved = localStorage.getItem(key);
+        if (saved) return merge(JSON.parse(saved) as T);
+    } catch {
+        // Corrupt settings fall through to the defaults.
+    }
+    return defaults;
+};
+
+const loadProviderSettings = () => loadSettings<ProviderSettings>(PROVIDER_SETTINGS_KEY, DEFAULT_PROVIDER_SETTINGS, saved => ({
+    ...DEFAULT_PROVIDER_SETTINGS,
+    ...saved,
+    models: { ...DEFAULT_PROVIDER_SETTINGS.models, ...saved.models },
+}));
+
+const loadSchedulerSettings = () => loadSettings<SchedulerSettings>(SCHEDULER_SETTINGS_KEY, DEFAULT_SCHEDULER_SETTINGS, saved => ({
+    ...DEFAULT_SCHEDULER_SETTINGS,
+    ...saved,
+}));
+
+const loadConsistencySettings = () => loadSettings<ConsistencySettings>(CONSISTENCY_SETTINGS_KEY, DEFAULT_CONSISTENCY_SETTINGS, saved => ({
+    ...DEFAULT_CONSISTENCY_SETTINGS,
+    ...saved,
+}));
+
+const loadCostSettings = () => loadSettings<CostSettings>(COST_SETTINGS_KEY, DEFAULT_COST_SETTINGS, saved => ({
+    ...DEFAULT_COST_SETTINGS,
+    ...saved,
+    prices: { ...DEFAULT_COST_SETTINGS.prices, ...saved.prices },
+}));
 
 const App: React.FC = () => {
     // Stage Management
-    const [stage, setStage] = useState<'IDLE' | 'ANALYZING' | 'PROCESSING' | 'COMPLETE'>('IDLE');
+    const [stage, setStage] = useState<RunStage>('IDLE');
+    const [interruption, setInterruption] = useState<RunInterruption | null>(null);
     const [isUploading, setIsUploading] = useState(false);
+    const [isDragging, setIsDragging] = useState(false);
     const [status, setStatus] = useState('SYSTEM_READY');
-    const [logs, setLogs] = useState<string[]>([]);
+    const [logEvents, setLogEvents] = useState<LogEvent[]>(getLogEvents);
     const [error, setError] = useState<string | null>(null);
 
     // Data Storage
@@ -26,25 +94,183 @@ const App: React.FC = () => {
     const [processedImages, setProcessedImages] = useState<Record<string, SourceImage>>({});
     const [textFiles, setTextFiles] = useState<TextFile[]>([]);
     const [fullScript, setFullScript] = useState<TextFile | null>(null);
+    const [screenplay, setScreenplay] = useState<{ name: string; script: Script } | null>(null);
     const [storyMap, setStoryMap] = useState<TextFile | null>(null);
-    const [style, setStyle] = useState("cinematic film grain, high-key lighting, vibrant reds and deep blacks.");
+    const [style, setStyle] = useState(DEFAULT_BASE_STYLE);
+    const [styleLibrary, setStyleLibrary] = useState<StyleLibrary>(DEFAULT_STYLE_LIBRARY);
+    const [frameFormat, setFrameFormat] = useState<FrameFormat>(DEFAULT_FRAME_FORMAT);
+    const [duplicateEntries, setDuplicateEntries] = useState<DuplicateEntry[]>([]);
+    // Opened archives waiting for the operator to give their unassigned files a role.
+    const [pendingArchives, setPendingArchives] = useState<OpenedArchive[] | null>(null);
+    const ingestReport = useMemo(() => buildIngestReport(Object.keys(processedImages), textFiles), [processedImages, textFiles]);
+    const frameOrder = useMemo(() => Object.keys(processedImages).sort(compareFrameNames), [processedImages]);
+    const sceneTags = useMemo(() => Array.from(new Set<string>(frameOrder.flatMap(frame => ingestReport.sidecars[frame]?.tags || []))).sort(), [frameOrder, ingestReport]);
+    const styleCounts = useMemo(() => frameOrder.reduce<Record<string, number>>((counts, frame) => {
+        const preset = resolveFrameStyle(styleLibrary, frame, frameOrder, ingestReport.sidecars[frame]?.tags || [], style).preset || '';
+        return { ...counts, [preset]: (counts[preset] || 0) + 1 };
+    }, {}), [styleLibrary, frameOrder, ingestReport, style]);
+    const promptTemplates = useMemo(() => loadPromptTemplates(textFiles), [textFiles]);
+    // Beats the operator moved frames to; everything else follows the automatic alignment.
+    const [beatOverrides, setBeatOverrides] = useState<Record<string, string>>({});
+    const story = useMemo(() => (storyMap ? parseStoryMap(storyMap.content) : null), [storyMap]);
+    const alignedBeats = useMemo(() => alignStory({ processedImages, report: ingestReport, story }), [processedImages, ingestReport, story]);
+    const frameBeats = useMemo(() => resolveFrameBeats(alignedBeats, beatOverrides, story), [alignedBeats, beatOverrides, story]);
     
     // Mapping & Bible
-    const [characterBible, setCharacterBible] = useState<string>('');
+    const [characterBible, setCharacterBible] = useState<AnalyzedCharacter[]>([]);
+    const [cast, setCast] = useState<CastMapping>(EMPTY_CAST);
+    const [preProductionStep, setPreProductionStep] = useState<'BIBLE' | 'CAST'>('BIBLE');
     const [results, setResults] = useState<RejuvenatedItem[]>([]);
+    const [plan, setPlan] = useState<FramePlan[] | null>(null);
+    const [planPromptsOnly, setPlanPromptsOnly] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+
+    // Review
+    const [isReviewing, setIsReviewing] = useState(false);
+    const [regenerating, setRegenerating] = useState<Set<string>>(new Set());
+
+    // Screening
+    const [isScreening, setIsScreening] = useState(false);
+    const [musicTracks, setMusicTracks] = useState<{ file: File; url: string }[]>([]);
+    const [sceneAudioFiles, setSceneAudioFiles] = useState<File[]>([]);
+    const deliveredNames = useMemo(() => outputNames({ processedImages }), [processedImages]);
+    const screening = useMemo(() => buildScreening(results, deliveredNames, ingestReport.sidecars, screenplay?.script), [results, deliveredNames, ingestReport, screenplay]);
+    // Generated voices are kept per frame so they survive re-ordering; uploaded files win over them.
+    const [voiceClips, setVoiceClips] = useState<Record<string, Blob>>({});
+    const [isVoicing, setIsVoicing] = useState(false);
+    const sceneAudio = useMemo(() => {
+        const uploaded = matchSceneAudio(sceneAudioFiles, screening.frameNames);
+        const covered = new Set(uploaded.audio.map(a => a.sceneIndex));
+        const voiced = screening.frameNames.flatMap((name, sceneIndex) =>
+            voiceClips[name] && !covered.has(sceneIndex) ? [{ sceneIndex, audioBlob: voiceClips[name] }] : []);
+        return { audio: [...uploaded.audio, ...voiced], unmatched: uploaded.unmatched };
+    }, [sceneAudioFiles, voiceClips, screening]);
+    const [videoProgress, setVideoProgress] = useState<number | null>(null);
+    const videoAbortRef = useRef<AbortController | null>(null);
+
+    // Checkpointing
+    const [savedRun, setSavedRun] = useState<SavedRun | null>(null);
+
+    // Run Control
+    const runningRef = useRef<RunStage | null>(null);
+    const runControlRef = useRef<RunControl | null>(null);
+    const [inFlightFrames, setInFlightFrames] = useState<string[]>([]);
+    const [pauseRequested, setPauseRequested] = useState(false);
+
+    // Model Routing
+    const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+    const [schedulerSettings, setSchedulerSettings] = useState<SchedulerSettings>(loadSchedulerSettings);
+    const [consistencySettings, setConsistencySettings] = useState<ConsistencySettings>(loadConsistencySettings);
+
+    // Cost Accounting
+    const [costSettings, setCostSettings] = useState<CostSettings>(loadCostSettings);
+    const [usage, setUsage] = useState<UsageSummary>(summarizeUsage);
     
-    const consoleScrollRef = useRef<HTMLDivElement>(null);
+    // Checkpoint writes must never take the run down with them.
+    const persist = (task: Promise<void>) => {
+        task.catch(err => logEvent('error', 'CHECKPOINT WRITE FAILED', { error: errorDetails(err) }));
+    };
 
-    const addLog = (msg: string) => {
-        const timestamp = new Date().toLocaleTimeString();
-        setLogs(prev => [...prev, `[${timestamp}] ${msg}`]);
+    useEffect(() => {
+        loadRun()
+            .then(run => {
+                if (run && run.checkpoint.stage !== 'IDLE') setSavedRun(run);
+            })
+            .catch(err => logEvent('error', "CHECKPOINT LOAD FAILED", { error: errorDetails(err) }));
+    }, []);
+
+    const resumeSavedRun = () => {
+        if (!savedRun) return;
+        const { checkpoint, results: savedResults } = savedRun;
+        const finished = savedResults.filter(r => r.status !== 'FAILED').length;
+        const failed = savedResults.length - finished;
+
+        setAvatars(checkpoint.avatars);
+        setProcessedImages(checkpoint.processedImages);
+        setTextFiles(checkpoint.textFiles);
+        setDuplicateEntries(checkpoint.duplicates || []);
+        setStoryMap(checkpoint.storyMap);
+        setBeatOverrides(checkpoint.beatOverrides || {});
+        setStyle(checkpoint.style);
+        setStyleLibrary(checkpoint.styles || DEFAULT_STYLE_LIBRARY);
+        setResults(savedResults);
+        // Checkpoints written before the bible was structured hold a string; those re-run analysis.
+        const bible = Array.isArray(checkpoint.characterBible) ? checkpoint.characterBible : [];
+        setCharacterBible(bible);
+        setCast(checkpoint.castMapping || EMPTY_CAST);
+        setFrameFormat(checkpoint.frameFormat || DEFAULT_FRAME_FORMAT);
+        setPlan(checkpoint.plan || null);
+        setInterruption(checkpoint.interruption || null);
+        setPreProductionStep('BIBLE');
+        setFullScript(checkpoint.fullScript);
+        setScreenplay(checkpoint.screenplay || null);
+        resetUsage(checkpoint.usage);
+        setUsage(summarizeUsage());
+        // Without a bible the run restarts from analysis; otherwise it returns to where it stopped.
+        setStage(
+            checkpoint.stage === 'VALIDATING' ? 'VALIDATING'
+            : ['CANCELLED', 'FAILED'].includes(checkpoint.stage) && checkpoint.interruption ? checkpoint.stage
+            : bible.length === 0 ? 'ANALYZING'
+            : checkpoint.stage === 'PLANNED' && !checkpoint.plan ? 'MAPPING'
+            : ['COMPLETE', 'MAPPING', 'PLANNING', 'PLANNED', 'PAUSED'].includes(checkpoint.stage) ? checkpoint.stage
+            : 'PROCESSING'
+        );
+        setSavedRun(null);
+        // The saved run's events come first, then anything logged since this page loaded.
+        resetLog([...(checkpoint.log || []), ...getLogEvents()]);
+        setLogEvents([...getLogEvents()]);
+        logEvent('info', `RESUMED RUN FROM ${new Date(checkpoint.updatedAt).toLocaleString()}: ${finished} FINISHED, ${failed} TO RETRY.`);
+    };
+
+    const discardSavedRun = () => {
+        setSavedRun(null);
+        persist(clearRun());
+        logEvent('info', "SAVED RUN DISCARDED.");
     };
 
     useEffect(() => {
-        if (consoleScrollRef.current) {
-            consoleScrollRef.current.scrollTop = consoleScrollRef.current.scrollHeight;
-        }
-    }, [logs]);
+        configureProvider(providerSettings);
+        localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(providerSettings));
+    }, [providerSettings]);
+
+    useEffect(() => {
+        configureScheduler(schedulerSettings);
+        localStorage.setItem(SCHEDULER_SETTINGS_KEY, JSON.stringify(schedulerSettings));
+    }, [schedulerSettings]);
+
+    useEffect(() => {
+        configurePromptTemplates(promptTemplates.templates);
+    }, [promptTemplates]);
+
+    useEffect(() => {
+        localStorage.setItem(CONSISTENCY_SETTINGS_KEY, JSON.stringify(consistencySettings));
+    }, [consistencySettings]);
+
+    useEffect(() => {
+        configureCosts(costSettings);
+        localStorage.setItem(COST_SETTINGS_KEY, JSON.stringify(costSettings));
+    }, [costSettings]);
+
+    useEffect(() => {
+        setUsageListener((_entry, summary) => setUsage(summary));
+        return () => setUsageListener(null);
+    }, []);
+
+    useEffect(() => {
+        setRetryListener(({ label, attempt, delayMs, error }) => {
+            logEvent('warn', `RETRY ${attempt} [${label}] IN ${(delayMs / 1000).toFixed(1)}s`, { error: errorDetails(error) });
+        });
+        return () => setRetryListener(null);
+    }, []);
+
+    useEffect(() => {
+        setLogListener(event => setLogEvents(prev => [...prev, event]));
+        return () => setLogListener(null);
+    }, []);
+
+    useEffect(() => {
+        setLogStage(stage);
+    }, [stage]);
 
     const downloadFile = (data: string | Blob, filename: string, isBase64 = false) => {
         const a = document.createElement('a');
@@ -67,207 +293,613 @@ const App: React.FC = () => {
         }
     };
 
-    const recursiveUnzip = async (zipData: ArrayBuffer | Blob): Promise<{ images: Record<string, SourceImage>, texts: TextFile[] }> => {
-        const zip = await JSZip.loadAsync(zipData);
-        let extractedImages: Record<string, SourceImage> = {};
-        let extractedTexts: TextFile[] = [];
-
-        const entries = Object.keys(zip.files);
-        for (const name of entries) {
-            const entry = zip.files[name];
-            if (entry.dir) continue;
-
-            const ext = name.toLowerCase().split('.').pop() || '';
-            if (ext === 'zip') {
-                const subZipData = await entry.async('arraybuffer');
-                const subResults = await recursiveUnzip(subZipData);
-                extractedImages = { ...extractedImages, ...subResults.images };
-                extractedTexts = [...extractedTexts, ...subResults.texts];
-            } else if (['png', 'jpg', 'jpeg', 'webp'].includes(ext)) {
-                const base64 = await entry.async('base64');
-                const mime = `image/${ext === 'jpg' ? 'jpeg' : ext}`;
-                extractedImages[name] = { fileName: name, base64, mimeType: mime };
-            } else if (['txt', 'md'].includes(ext)) {
-                const content = await entry.async('string');
-                extractedTexts.push({ name: name, content });
-            }
-        }
-        return { images: extractedImages, texts: extractedTexts };
+    const failIngest = (err: unknown) => {
+        setError(err instanceof IngestError ? err.message : "ARCHIVE READ ERROR.");
+        logEvent('error', "ARCHIVE READ FAILED", { error: errorDetails(err) });
+        setPendingArchives(null);
+        setStage('IDLE');
     };
 
-    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-        const files = e.target.files;
-        if (!files) return;
+    /** Opens every source; archives with files of unknown role wait for the role panel. */
+    const loadSources = async (sources: ArchiveSource[]) => {
+        if (sources.length === 0) return;
 
         setIsUploading(true);
         setError(null);
-        setStage('ANALYZING'); // Immediately move to analyzing stage
-        addLog("DECODING ARCHIVES...");
+        setSavedRun(null);
+        setResults([]);
+        setCharacterBible([]);
+        setCast(EMPTY_CAST);
+        setPlan(null);
+        setInterruption(null);
+        setDuplicateEntries([]);
+        resetUsage();
+        setUsage(summarizeUsage());
+        resetLog();
+        setLogEvents([]);
+        setStage('VALIDATING'); // Nothing runs until the ingest report has been reviewed
+        logEvent('info', "DECODING ARCHIVES...");
 
         try {
-            let tempAvatars: Record<string, SourceImage> = {};
-            let tempProcessed: Record<string, SourceImage> = {};
-            let tempTexts: TextFile[] = [];
-
-            for (const file of Array.from(files) as File[]) {
-                const name = file.name.toLowerCase();
-                const data = await file.arrayBuffer();
-                const extracted = await recursiveUnzip(data);
-
-                if (name.includes('avatars')) {
-                    tempAvatars = { ...tempAvatars, ...extracted.images };
-                } else if (name.includes('processed')) {
-                    tempProcessed = { ...tempProcessed, ...extracted.images };
-                    tempTexts = [...tempTexts, ...extracted.texts];
-                }
+            const opened: OpenedArchive[] = [];
+            for (const source of sources) {
+                const archive = await openArchive(source);
+                const unassigned = countContents(archive.unassigned);
+                logEvent('info', `OPENED ${source.kind === 'folder' ? 'FOLDER' : 'ARCHIVE'} ${source.name}${archive.manifest ? ' (MANIFEST)' : ''}: `
+                    + `${countContents(archive.contents.avatars)} AVATAR FILES, ${countContents(archive.contents.processed)} PROCESSED FILES${unassigned > 0 ? `, ${unassigned} WITHOUT A ROLE` : ''}`);
+                opened.push(archive);
             }
-            
-            // Generate hs4000.txt from individual scene files
-            const sortedImageKeys = Object.keys(tempProcessed).sort();
-            const hs4000Lines: string[] = [];
-            for (const imageKey of sortedImageKeys) {
-                const base = imageKey.split('.').shift() || "";
-                const tFile = tempTexts.find(t => t.name.startsWith(base) && t.name.endsWith('.txt'));
-                if (tFile) {
-                    const lines = tFile.content.split('\n');
-                    if (lines.length >= 4) {
-                        hs4000Lines.push(lines[3]);
-                    }
-                }
+            if (opened.some(archive => countContents(archive.unassigned) > 0)) {
+                logEvent('warn', "SOME FILES HAVE NO ROLE. ASSIGN ONE TO CONTINUE.");
+                setPendingArchives(opened);
+                return;
             }
-            const hs4000Content = hs4000Lines.join('\n');
-            
-            // Download hs4000.txt FIRST
-            downloadFile(hs4000Content, 'hs4000.txt');
-            addLog("DOWNLOADED: hs4000.txt");
-
-            const story = tempTexts.find(t => t.name.toLowerCase() === 'story.txt');
-            const globalStyle = tempTexts.find(t => t.name.toLowerCase() === 'style.txt');
-            
-            if (globalStyle) setStyle(globalStyle.content);
-            if (story) setStoryMap(story);
-
-            setAvatars(tempAvatars);
-            setProcessedImages(tempProcessed);
-            setTextFiles(tempTexts);
-            // Set the *newly generated* content as the full script
-            setFullScript({ name: 'hs4000.txt', content: hs4000Content });
-
-            addLog(`LOADED: ${Object.keys(tempProcessed).length} FRAMES, ${Object.keys(tempAvatars).length} AVATARS.`);
+            await finishIngest(opened);
         } catch (err) {
-            setError("ARCHIVE READ ERROR.");
-            addLog(`CRITICAL: ${err}`);
-            setStage('IDLE');
+            failIngest(err);
         } finally {
             setIsUploading(false);
         }
     };
-    
-    const runAnalysis = async () => {
-        if (!fullScript || fullScript.content.trim() === '') {
-             setError("GENERATED SCRIPT IS EMPTY. CANNOT CREATE BIBLE. PROCESS HALTED.");
-             setStage('IDLE');
-             return;
+
+    const finishIngest = async (opened: OpenedArchive[]) => {
+        const ingested = await ingestArchives(opened);
+
+        const runStyle = ingested.style ?? style;
+        setStyle(runStyle);
+        // Presets carry over to the new archives; rules name frames, so they do not.
+        const runStyles = { ...styleLibrary, rules: [] };
+        setStyleLibrary(runStyles);
+        // A new upload without story.txt has no story; the previous project's does not carry over.
+        setStoryMap(ingested.storyMap);
+        setBeatOverrides({});
+
+        setAvatars(ingested.avatars);
+        setProcessedImages(ingested.processedImages);
+        setTextFiles(ingested.textFiles);
+        setFullScript(ingested.fullScript);
+        setScreenplay(ingested.screenplay);
+        setDuplicateEntries(ingested.duplicates);
+
+        await clearRun().catch(err => logEvent('error', "CHECKPOINT CLEAR FAILED", { error: errorDetails(err) }));
+        persist(saveCheckpoint({
+            stage: 'VALIDATING',
+            avatars: ingested.avatars,
+            processedImages: ingested.processedImages,
+            textFiles: ingested.textFiles,
+            duplicates: ingested.duplicates,
+            fullScript: ingested.fullScript,
+            screenplay: ingested.screenplay,
+            storyMap: ingested.storyMap,
+            style: runStyle,
+            styles: runStyles,
+            characterBible: [],
+            frameFormat,
+            log: getLogEvents(),
+        }));
+
+        logEvent('info', `LOADED: ${Object.keys(ingested.processedImages).length} FRAMES, ${Object.keys(ingested.avatars).length} AVATARS. REVIEW THE INGEST REPORT TO CONTINUE.`);
+    };
+
+    const confirmArchiveRoles = async (roles: (ArchiveRole | null)[]) => {
+        if (!pendingArchives) return;
+        const assigned = pendingArchives.map((archive, index) => {
+            if (countContents(archive.unassigned) > 0) logEvent('info', `ROLE FOR ${archive.name}: ${roles[index]?.toUpperCase() || 'LEFT OUT'}`);
+            return assignRole(archive, roles[index]);
+        });
+        setPendingArchives(null);
+        setIsUploading(true);
+        try {
+            await finishIngest(assigned);
+        } catch (err) {
+            failIngest(err);
+        } finally {
+            setIsUploading(false);
         }
-        addLog("GENERATING CHARACTER BIBLE FROM GENERATED SCRIPT...");
-        setStatus("BUILDING BIBLE...");
-        const bible = await createCharacterBible(Object.keys(avatars), fullScript.content);
-        
-        downloadFile(bible, 'bible.txt');
-        addLog("DOWNLOADED: bible.txt");
+    };
+
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []) as File[];
+        e.target.value = '';
+        const ignored = files.filter(file => !isArchiveFile(file.name));
+        if (ignored.length > 0) logEvent('warn', `NOT A ZIP, IGNORED: ${ignored.map(file => file.name).join(', ')}`);
+        await loadSources(files.filter(file => isArchiveFile(file.name)).map(file => ({ kind: 'zip', name: file.name, data: file })));
+    };
+
+    const handleDrop = async (e: React.DragEvent<HTMLElement>) => {
+        e.preventDefault();
+        setIsDragging(false);
+        if (isUploading) return;
+        try {
+            const sources = await sourcesFromDrop(e.dataTransfer);
+            if (sources.length === 0) logEvent('warn', "NOTHING TO LOAD: DROP ZIP ARCHIVES OR FOLDERS.");
+            await loadSources(sources);
+        } catch (err) {
+            failIngest(err);
+        }
+    };
+
+    const proceedFromIngest = () => {
+        logEvent('info', `INGEST REPORT ACCEPTED: ${Object.keys(ingestReport.sidecars).length} FRAMES PAIRED.`);
+        persist(updateCheckpoint({ stage: 'ANALYZING' }));
+        setStage('ANALYZING');
+    };
+
+    const discardIngest = () => {
+        setPendingArchives(null);
+        setDuplicateEntries([]);
+        setAvatars({});
+        setProcessedImages({});
+        setTextFiles([]);
+        setFullScript(null);
+        setStoryMap(null);
+        setBeatOverrides({});
+        persist(clearRun());
+        logEvent('info', "ARCHIVES DISCARDED.");
+        setStage('IDLE');
+    };
 
+    /** Failures end in FAILED via runStage; a cancelled bible call ends in CANCELLED. */
+    const runAnalysis = async () => {
+        setStatus("BUILDING BIBLE...");
+        const { bible, cast: initialCast } = await analyzeScript({ avatars, fullScript, screenplay });
         setCharacterBible(bible);
-        addLog("BIBLE READY. PROCEEDING TO FULL PRODUCTION.");
+        setCast(initialCast);
+        setPreProductionStep('BIBLE');
+        logEvent('success', `BIBLE READY. ${bible.length} CHARACTERS FOUND. AWAITING BIBLE REVIEW AND CAST MAPPING.`);
+        persist(updateCheckpoint({ stage: 'MAPPING', characterBible: bible, castMapping: initialCast, usage: getUsageEntries(), log: getLogEvents() }));
+        setStatus("AWAITING BIBLE REVIEW");
+        setStage('MAPPING');
+    };
+
+    const updateBible = (next: AnalyzedCharacter[]) => {
+        setCharacterBible(next);
+        persist(updateCheckpoint({ characterBible: next }));
+    };
+
+    const confirmBible = () => {
+        // Characters added in the editor join the cast table; existing pins and overrides stay.
+        const known = new Set(cast.characters.map(normalizeName));
+        const added = characterBible.map(entry => entry.name.trim()).filter(name => name && !known.has(normalizeName(name)));
+        if (added.length > 0) updateCast({ ...cast, characters: [...cast.characters, ...added] });
+        logEvent('info', `BIBLE LOCKED: ${characterBible.length} ENTRIES.`);
+        setStatus("AWAITING CAST MAPPING");
+        setPreProductionStep('CAST');
+    };
+
+    const updateCast = (next: CastMapping) => {
+        setCast(next);
+        persist(updateCheckpoint({ castMapping: next }));
+    };
+
+    const updateBaseStyle = (next: string) => {
+        setStyle(next);
+        persist(updateCheckpoint({ style: next }));
+    };
+
+    const updateStyleLibrary = (next: StyleLibrary) => {
+        setStyleLibrary(next);
+        persist(updateCheckpoint({ styles: next }));
+    };
+
+    const updateBeatOverrides = (next: Record<string, string>) => {
+        setBeatOverrides(next);
+        persist(updateCheckpoint({ beatOverrides: next }));
+    };
+
+    const logStyleRules = () => {
+        styleLibrary.rules.forEach(rule => logEvent('info', `STYLE RULE: ${formatStyleRule(rule, styleLibrary)}`));
+    };
+
+    const confirmCast = () => {
+        logStyleRules();
+        setPlan(null);
+        persist(updateCheckpoint({ stage: 'PROCESSING', castMapping: cast, plan: null }));
+        logEvent('info', `CAST LOCKED: ${Object.keys(cast.pinned).length} PINNED, ${Object.keys(cast.frameSubjects).length} FRAME OVERRIDES. PROCEEDING TO FULL PRODUCTION.`);
+        setStage('PROCESSING');
+    };
+
+    /** Picks up a paused, cancelled or failed run at the stage it stopped in. */
+    const resumeRun = () => {
+        const next: RunStage = interruption?.stage === 'ANALYZING' || interruption?.stage === 'PLANNING' ? interruption.stage : 'PROCESSING';
+        setInterruption(null);
+        persist(updateCheckpoint({ stage: next, interruption: null }));
+        logEvent('info', `RESUMING ${next} WITH A BUDGET OF ${costSettings.budget > 0 ? formatCost(costSettings.budget) : 'NO CAP'}.`);
+        setStage(next);
+    };
+
+    const rerunFailed = () => {
+        const failed = results.filter(r => r.status === 'FAILED').length;
+        persist(updateCheckpoint({ stage: 'PROCESSING' }));
+        logEvent('info', `RE-RUNNING ${failed} FAILED FRAMES.`);
         setStage('PROCESSING');
     };
 
-    const processProductionRun = async () => {
-        addLog("LAUNCHING FULL PRODUCTION SEQUENCE...");
-        
-        // FIX: Cast Object.values to SourceImage[] to fix downstream type errors.
-        const allImages = (Object.values(processedImages) as SourceImage[]).sort((a, b) => a.fileName.localeCompare(b.fileName));
-        
-        if (allImages.length === 0) {
-            addLog("NO IMAGES TO PROCESS. PRODUCTION COMPLETE.");
+    /** Leaves a cancelled or failed run; the checkpoint stays until the next upload. */
+    const abandonRun = () => {
+        setInterruption(null);
+        logEvent('info', "RUN ABANDONED.");
+        setStage('IDLE');
+    };
+
+    const interruptRun = (next: 'PAUSED' | 'CANCELLED' | 'FAILED', stopped: RunInterruption) => {
+        setInterruption(stopped);
+        setStage(next);
+        persist(updateCheckpoint({ stage: next, interruption: stopped, usage: getUsageEntries(), log: getLogEvents() }));
+    };
+
+    const requestPause = () => {
+        runControlRef.current?.requestPause();
+        setPauseRequested(true);
+        logEvent('info', "PAUSE REQUESTED: NO NEW FRAMES WILL START.");
+    };
+
+    const cancelRun = () => {
+        runControlRef.current?.cancel();
+        logEvent('warn', "CANCEL REQUESTED: ABORTING REQUESTS IN FLIGHT.");
+    };
+
+    const skipFrame = (frame: string) => {
+        runControlRef.current?.skip(frame);
+        logEvent('warn', "SKIP REQUESTED", { frame });
+    };
+
+    /** Keeps the control deck's in-flight list in step with the pipeline. */
+    const trackFrames = (onEvent?: PipelineListener): PipelineListener => event => {
+        if (event.type === 'frame-started') setInFlightFrames(prev => [...prev, event.frame]);
+        else if (event.type === 'frame-ended') setInFlightFrames(prev => prev.filter(f => f !== event.frame));
+        onEvent?.(event);
+    };
+
+    const planFromCast = () => {
+        logStyleRules();
+        setPlanPromptsOnly(false);
+        persist(updateCheckpoint({ stage: 'PLANNING', castMapping: cast }));
+        logEvent('info', `CAST LOCKED: ${Object.keys(cast.pinned).length} PINNED, ${Object.keys(cast.frameSubjects).length} FRAME OVERRIDES. PROCEEDING TO DRY RUN.`);
+        setStage('PLANNING');
+    };
+
+    const exportProductionArchive = async (items: RejuvenatedItem[]) => {
+        setIsExporting(true);
+        setStatus("PACKAGING ARCHIVE...");
+        try {
+            const archive = await buildProductionArchive({
+                results: items,
+                names: deliveredNames,
+                bible: characterBible,
+                script: fullScript?.content || '',
+                style,
+                styles: styleLibrary,
+            });
+            downloadFile(archive, 'production_run.zip');
+            logEvent('success', `DOWNLOADED: production_run.zip (${items.length} FRAMES)`);
+            setStatus("ARCHIVE READY");
+        } catch (err) {
+            setError("ARCHIVE EXPORT ERROR.");
+            logEvent('error', "ARCHIVE EXPORT FAILED", { error: errorDetails(err) });
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const castAvatarFor = (characterName: string) => avatarForCharacter(cast, characterBible, characterName, avatars);
+
+    /** The run inputs as they stand, for the pipeline. */
+    const pipelineContext = (): PipelineContext => ({
+        avatars,
+        processedImages,
+        report: ingestReport,
+        bible: characterBible,
+        cast,
+        style,
+        styles: styleLibrary,
+        frameFormat,
+        consistency: consistencySettings,
+        fullScript,
+        screenplay,
+        story,
+        beats: frameBeats,
+        conform: conformImage,
+    });
+
+    const updateFrameFormat = (next: FrameFormat) => {
+        setFrameFormat(next);
+        persist(updateCheckpoint({ frameFormat: next }));
+    };
+
+    const updateResult = (originalName: string, patch: Partial<RejuvenatedItem>) => {
+        const item = results.find(r => r.originalName === originalName);
+        if (!item) return;
+        setResults(prev => prev.map(r => (r.originalName === originalName ? { ...r, ...patch } : r)));
+        persist(saveFrameResult({ ...item, ...patch }));
+    };
+
+    const decideFrame = (originalName: string, review: ReviewDecision) => {
+        updateResult(originalName, { review });
+        logEvent('info', `REVIEW: ${review}`, { frame: originalName });
+    };
+
+    const regenerateFrame = async (originalName: string, { prompt, identities }: RegenerateOptions) => {
+        const item = results.find(r => r.originalName === originalName);
+        const source = processedImages[originalName];
+        if (!item || !source) return;
+        const avatar = identities[0]?.avatarFilename ? avatars[identities[0].avatarFilename] : null;
+
+        setRegenerating(prev => new Set(prev).add(originalName));
+        const started = Date.now();
+        logEvent('info', `REGENERATING${identities.some(i => i.avatarFilename) ? ` WITH ${formatIdentities(identities)}` : ''}`, { frame: originalName });
+        try {
+            const ctx = pipelineContext();
+            const gen = await renderCheckedFrame(ctx, prompt, identities, source, results);
+            // The prompt was edited by hand, so only the image-side templates change.
+            const templates = [...(item.templates || []).filter(t => !/^(image|identity|imageNoAvatar|verify)@/.test(t)), ...imageTemplates(ctx, identities)];
+            const frameCost = usageOf(originalName);
+            updateResult(originalName, {
+                base64: gen.imageBase64,
+                prompt,
+                avatarFilename: avatar ? avatar.fileName : null,
+                identities,
+                status: 'DONE',
+                error: undefined,
+                review: 'PENDING',
+                consistency: gen.consistency,
+                templates,
+                usage: frameCost,
+                meta: buildFrameMeta({
+                    originalName,
+                    characterName: item.characterName,
+                    avatar: avatar ? `${avatar.fileName} (manual)` : 'NONE',
+                    identities,
+                    stylePreset: item.stylePreset,
+                    beat: beatOf(ctx, item.beat),
+                    prompt,
+                    format: gen.format,
+                    sceneData: ingestReport.sidecars[originalName]?.raw || '',
+                    consistency: gen.consistency,
+                    templates,
+                    usage: frameCost,
+                }),
+            });
+            logEvent(gen.consistency?.flagged ? 'warn' : 'success', `READY: ${item.newName} (REGENERATED)${gen.consistency?.flagged ? ` — FLAGGED ${formatConsistency(gen.consistency)}` : ''}`, { frame: originalName, durationMs: Date.now() - started });
+        } catch (err) {
+            logEvent('error', "REGENERATION FAILED", { frame: originalName, durationMs: Date.now() - started, error: errorDetails(err) });
+        } finally {
+            setRegenerating(prev => {
+                const next = new Set(prev);
+                next.delete(originalName);
+                return next;
+            });
+        }
+    };
+
+    const runPlanning = async (control: RunControl) => {
+        const cached = new Map<string, FramePlan>((planPromptsOnly ? plan || [] : []).map(p => [p.originalName, p]));
+        logEvent('info', planPromptsOnly ? "REBUILDING PROMPTS FROM CACHED ANALYSIS..." : `DRY RUN: PLANNING ${Object.keys(processedImages).length} FRAMES. NO IMAGES WILL BE GENERATED.`);
+
+        const next = await planFrames(pipelineContext(), {
+            control,
+            concurrency: schedulerSettings.concurrency,
+            cached,
+            onEvent: trackFrames(event => {
+                if (event.type === 'frame-planned') setStatus(`PLAN: [${event.done}/${event.total}] - ${event.plan.originalName}`);
+            }),
+        });
+
+        setPlan(next);
+        setPlanPromptsOnly(false);
+        logEvent('success', `PLAN READY: ${countPlanned(next)}/${next.length} FRAMES PLANNED FOR ${formatCost(summarizeUsage().run.cost)}. REVIEW BEFORE EXECUTING.`);
+        persist(updateCheckpoint({ stage: 'PLANNED', plan: next, usage: getUsageEntries(), log: getLogEvents() }));
+        setStatus("AWAITING PLAN REVIEW");
+        setStage('PLANNED');
+    };
+
+    const updatePlan = (next: FramePlan[]) => {
+        setPlan(next);
+        persist(updateCheckpoint({ plan: next }));
+    };
+
+    const rebuildPlanPrompts = () => {
+        setPlanPromptsOnly(true);
+        persist(updateCheckpoint({ stage: 'PLANNING' }));
+        setStage('PLANNING');
+    };
+
+    const exportPlan = (format: 'csv' | 'json') => {
+        if (!plan) return;
+        downloadFile(format === 'csv' ? toPlanCsv(plan) : toPlanJson(plan), `production_plan.${format}`);
+        logEvent('success', `DOWNLOADED: production_plan.${format}`);
+    };
+
+    const executePlan = () => {
+        persist(updateCheckpoint({ stage: 'PROCESSING', plan }));
+        logEvent('info', `PLAN APPROVED: ${countPlanned(plan || [])} FRAMES. GENERATING IMAGES ONLY.`);
+        setStage('PROCESSING');
+    };
+
+    const processProductionRun = async (control: RunControl) => {
+        logEvent('info', plan ? "EXECUTING APPROVED PLAN..." : "LAUNCHING FULL PRODUCTION SEQUENCE...");
+
+        const ctx = pipelineContext();
+        if (frameImages(ctx).length === 0) {
+            logEvent('info', "NO IMAGES TO PROCESS. PRODUCTION COMPLETE.");
             setStage('COMPLETE');
             return;
         }
 
-        for (let i = 0; i < allImages.length; i++) {
-            const img = allImages[i];
-            const base = img.fileName.split('.').shift() || "";
-            const tFile = textFiles.find(t => t.name.startsWith(base) && t.name.endsWith('.txt'));
-            
-            if (!tFile) {
-                addLog(`SKIPPING: ${img.fileName} (NO CONTEXT)`);
-                continue;
-            }
-
-            const sceneTextSnippet = tFile.content.split('\n').slice(3).join('\n');
-            
-            let scriptContext = "";
-            if (fullScript) {
-                const snippetStart = sceneTextSnippet.substring(0, 40);
-                const index = fullScript.content.indexOf(snippetStart);
-                if (index !== -1) {
-                    scriptContext = fullScript.content.substring(Math.max(0, index - 1000), Math.min(fullScript.content.length, index + 3000));
+        const outcome = await produceFrames(ctx, {
+            control,
+            concurrency: schedulerSettings.concurrency,
+            // An approved plan replaces everything before image generation.
+            approved: plan ? new Map<string, FramePlan>(plan.map(p => [p.originalName, p])) : null,
+            // Frames restored from a checkpoint are kept unless they failed, in which case they are retried.
+            previous: results,
+            onEvent: trackFrames(event => {
+                if (event.type === 'frame-started') setStatus(`PROCESS: [${event.index}/${event.total}] - ${event.frame}`);
+                if (event.type === 'frame-result') {
+                    setResults(prev => [...prev.filter(p => p.originalName !== event.item.originalName), event.item]);
+                    persist(saveFrameResult(event.item));
                 }
-            }
+            }),
+        });
 
-            setStatus(`PROCESS: [${i + 1}/${allImages.length}] - ${img.fileName}`);
-            
-            try {
-                const visualAnalysis = await analyzeSceneImage(img.base64, img.mimeType);
-                const mapping = await identifyConsistentCharacter(sceneTextSnippet, visualAnalysis, characterBible);
-                const avatar = mapping.avatarFilename ? avatars[mapping.avatarFilename] : null;
-
-                const prompt = await generateRejuvenatedPrompt(
-                    sceneTextSnippet, 
-                    mapping.characterName, 
-                    mapping.otherCharacters || [],
-                    characterBible, 
-                    style, 
-                    visualAnalysis,
-                    scriptContext,
-                    storyMap?.content || null
-                );
-                
-                const gen = await generateRevisedImage(prompt, avatar?.base64 || null, avatar?.mimeType || null, img.base64, img.mimeType);
-
-                if (gen.imageBase64) {
-                    const result = {
-                        originalName: img.fileName,
-                        newName: `${base}_rejuvenated.png`,
-                        base64: gen.imageBase64,
-                        prompt
-                    };
-                    
-                    const metaContent = `ORIGINAL: ${img.fileName}\nCHARACTER: ${mapping.characterName}\nPROMPT: ${prompt}\n\nSCENE DATA:\n${tFile.content}`;
-                    downloadFile(metaContent, `${base}_meta.txt`);
-                    downloadFile(gen.imageBase64, result.newName, true);
-                    
-                    setResults(prev => [...prev, result]);
-                    addLog(`DOWNLOADED: ${result.newName}`);
-                } else {
-                    addLog(`REVISION FAILED FOR ${img.fileName}. SKIPPING.`);
-                }
-            } catch (err) {
-                addLog(`CRITICAL ERROR [${img.fileName}]: ${err}`);
-            }
+        if (outcome.paused) {
+            // Unstarted frames were never recorded, so resuming picks them up.
+            setStatus(`PAUSED: ${outcome.paused}`);
+            interruptRun('PAUSED', { stage: 'PROCESSING', reason: outcome.paused });
+            return;
+        }
+
+        const failedCount = outcome.results.filter(r => r.status === 'FAILED').length;
+        if (failedCount > 0) {
+            logEvent('error', `${failedCount} FRAMES FAILED. USE RE-RUN FAILED TO RETRY THEM.`);
         }
 
         setStage('COMPLETE');
-        addLog("ALL SEQUENCES FINALIZED.");
+        logEvent('success', `ALL SEQUENCES FINALIZED. ${outcome.results.filter(r => r.status === 'DONE').length} FRAMES READY FOR REVIEW.`);
+        persist(updateCheckpoint({ stage: 'COMPLETE', usage: getUsageEntries(), log: getLogEvents() }));
+        setIsReviewing(true);
+    };
+
+    const handleMusicUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = (Array.from(e.target.files || []) as File[]).filter(file => isAudioFile(file.name));
+        e.target.value = '';
+        if (files.length === 0) return;
+        musicTracks.forEach(track => URL.revokeObjectURL(track.url));
+        setMusicTracks(files.map(file => ({ file, url: URL.createObjectURL(file) })));
+        logEvent('info', `LOADED ${files.length} BACKGROUND MUSIC TRACK(S)`);
+    };
+
+    const handleSceneAudioUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = (Array.from(e.target.files || []) as File[]).filter(file => isAudioFile(file.name));
+        e.target.value = '';
+        if (files.length === 0) return;
+        const { audio, unmatched } = matchSceneAudio(files, screening.frameNames);
+        setSceneAudioFiles(files);
+        logEvent('info', `LOADED ${audio.length} SCENE AUDIO FILE(S)`);
+        if (unmatched.length > 0) logEvent('warn', `SCENE AUDIO WITHOUT MATCHING FRAME: ${unmatched.join(', ')}`);
+    };
+
+    const generateVoices = async () => {
+        setIsVoicing(true);
+        setStatus("VOICING DIALOGUE...");
+        try {
+            const { audio, failures } = await generateVoiceTrack(
+                screening.script,
+                characterBible,
+                schedulerSettings.concurrency,
+                (line, err) => {
+                    const frame = screening.frameNames[line.sceneIndex];
+                    if (err) logEvent('error', `VOICE FAILED: ${line.character}`, { frame, error: errorDetails(err) });
+                    else logEvent('info', `VOICED: ${line.character}`, { frame });
+                },
+            );
+            setVoiceClips(prev => ({
+                ...prev,
+                ...Object.fromEntries(audio.map(a => [screening.frameNames[a.sceneIndex], a.audioBlob])),
+            }));
+            logEvent(failures.length > 0 ? 'warn' : 'success', `VOICE STAGE READY: ${audio.length} LINES${failures.length > 0 ? `, ${failures.length} FAILED` : ''}`);
+            setStatus(failures.length > 0 ? "VOICE STAGE FINISHED WITH ERRORS" : "VOICES READY");
+        } catch (err) {
+            setError("VOICE STAGE ERROR.");
+            logEvent('error', "VOICE STAGE FAILED", { error: errorDetails(err) });
+        } finally {
+            setIsVoicing(false);
+        }
+    };
+
+    const exportScreeningVideo = async () => {
+        const controller = new AbortController();
+        videoAbortRef.current = controller;
+        setVideoProgress(0);
+        setStatus("RENDERING VIDEO (REAL TIME)...");
+        try {
+            const video = await renderScreeningVideo(
+                [...screening.images, ...sceneAudio.audio],
+                screening.script,
+                musicTracks.map(track => track.file),
+                {
+                    signal: controller.signal,
+                    onProgress: (seconds, total) => setVideoProgress(total > 0 ? seconds / total : 0),
+                },
+            );
+            downloadFile(video, 'screening.webm');
+            logEvent('success', `DOWNLOADED: screening.webm (${screening.images.length} FRAMES)`);
+            setStatus("VIDEO READY");
+        } catch (err) {
+            if (controller.signal.aborted) {
+                logEvent('info', "VIDEO EXPORT CANCELLED");
+                setStatus("VIDEO EXPORT CANCELLED");
+            } else {
+                setError("VIDEO EXPORT ERROR.");
+                logEvent('error', "VIDEO EXPORT FAILED", { error: errorDetails(err) });
+            }
+        } finally {
+            videoAbortRef.current = null;
+            setVideoProgress(null);
+        }
+    };
+
+    const exportEventLog = () => {
+        downloadFile(toJsonl(getLogEvents()), 'event_log.jsonl');
+    };
+
+    const exportScreeningTimeline = async () => {
+        setIsExporting(true);
+        setStatus("BUILDING TIMELINE...");
+        try {
+            const durations = await measureAudioDurations(sceneAudio.audio.map(a => a.audioBlob));
+            const slides = buildTimeline(buildStoryboard([...screening.images, ...sceneAudio.audio], screening.script), durations);
+            const zip = new JSZip();
+            zip.file('screening.srt', toSrt(slides));
+            zip.file('screening.vtt', toWebVtt(slides));
+            zip.file('screening.edl', toCmx3600(slides, screening.outputNames));
+            zip.file('screening_edl.csv', toEdlCsv(slides, screening.outputNames));
+            downloadFile(await zip.generateAsync({ type: 'blob' }), 'screening_timeline.zip');
+            logEvent('success', `DOWNLOADED: screening_timeline.zip (${slides.length} EVENTS)`);
+            setStatus("TIMELINE READY");
+        } catch (err) {
+            setError("TIMELINE EXPORT ERROR.");
+            logEvent('error', "TIMELINE EXPORT FAILED", { error: errorDetails(err) });
+        } finally {
+            setIsExporting(false);
+        }
     };
 
     // AUTOMATION EFFECT
     useEffect(() => {
-        if (stage === 'ANALYZING' && fullScript) {
-            runAnalysis();
-        } else if (stage === 'PROCESSING' && characterBible) {
-            processProductionRun();
-        }
-    }, [stage, fullScript, characterBible]);
+        const task = stage === 'ANALYZING' && fullScript ? runAnalysis
+            : stage === 'PLANNING' ? runPlanning
+            : stage === 'PROCESSING' ? processProductionRun
+            : null;
+        // StrictMode runs effects twice; a stage that is already running is not started again.
+        if (!task || runningRef.current === stage) return;
+        const running = stage;
+        const control = createRunControl();
+        runningRef.current = running;
+        runControlRef.current = control;
+        setActiveRun(control);
+        setPauseRequested(false);
+        task(control)
+            .catch(err => {
+                if (control.cancelled) {
+                    setStatus("RUN CANCELLED");
+                    logEvent('warn', `RUN CANCELLED DURING ${running}.`);
+                    interruptRun('CANCELLED', { stage: running, reason: 'CANCELLED BY OPERATOR' });
+                } else {
+                    setError(`RUN FAILED DURING ${running}.`);
+                    setStatus("RUN FAILED");
+                    logEvent('error', `RUN FAILED DURING ${running}`, { error: errorDetails(err) });
+                    interruptRun('FAILED', { stage: running, reason: describeError(err) });
+                }
+            })
+            .finally(() => {
+                runningRef.current = null;
+                runControlRef.current = null;
+                setActiveRun(null);
+                setInFlightFrames([]);
+                setPauseRequested(false);
+            });
+    }, [stage, fullScript]);
 
     return (
         <div className="h-screen bg-black text-slate-100 font-mono flex flex-col overflow-hidden selection:bg-red-600">
@@ -287,61 +919,251 @@ const App: React.FC = () => {
                         </h2>
                         
                         <div className="space-y-3">
+                            {stage === 'IDLE' && savedRun && (
+                                <div className="border border-amber-700/50 bg-amber-950/20 p-3 space-y-2">
+                                    <p className="text-[10px] text-amber-400 font-black uppercase">
+                                        SAVED RUN FOUND ({savedRun.checkpoint.stage}) — {savedRun.results.filter(r => r.status !== 'FAILED').length}/{Object.keys(savedRun.checkpoint.processedImages).length} FRAMES FINISHED
+                                    </p>
+                                    <div className="flex gap-2">
+                                        <button onClick={resumeSavedRun} className="flex-1 px-3 py-2 bg-amber-700 hover:bg-amber-600 font-black text-xs uppercase italic">RESUME</button>
+                                        <button onClick={discardSavedRun} className="flex-1 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 font-black text-xs uppercase italic">DISCARD</button>
+                                    </div>
+                                </div>
+                            )}
+
                             {stage === 'IDLE' && (
                                 <>
                                     <input type="file" multiple className="hidden" id="zip-upload" onChange={handleUpload} disabled={isUploading} accept=".zip" />
                                     <label htmlFor="zip-upload" className="w-full text-center block cursor-pointer px-6 py-3 bg-red-700 hover:bg-red-600 font-black text-sm uppercase italic border border-red-500/30 transition-all">
                                         {isUploading ? 'LOADING...' : 'LOAD ASSET ARCHIVES'}
                                     </label>
+                                    <div
+                                        onDragOver={e => {
+                                            e.preventDefault();
+                                            setIsDragging(true);
+                                        }}
+                                        onDragLeave={() => setIsDragging(false)}
+                                        onDrop={handleDrop}
+                                        className={`border border-dashed p-4 text-center text-[10px] font-black uppercase transition-colors ${isDragging ? 'border-red-500 text-red-400 bg-red-950/20' : 'border-zinc-800 text-zinc-600'}`}
+                                    >
+                                        OR DROP ZIPS / FOLDERS HERE
+                                    </div>
                                 </>
                             )}
                             
-                            {(stage === 'ANALYZING' || stage === 'PROCESSING') && (
-                                <p className="text-center text-zinc-500 italic text-sm py-3">AUTOMATED SEQUENCE RUNNING...</p>
+                            {stage === 'VALIDATING' && (
+                                <p className="text-center text-amber-500 italic text-sm py-3">{isUploading ? 'DECODING ARCHIVES...' : 'AWAITING INGEST REVIEW...'}</p>
+                            )}
+
+                            {stage === 'MAPPING' && (
+                                <p className="text-center text-amber-500 italic text-sm py-3">{preProductionStep === 'BIBLE' ? 'AWAITING BIBLE REVIEW...' : 'AWAITING CAST MAPPING...'}</p>
+                            )}
+
+                            {(stage === 'ANALYZING' || stage === 'PLANNING' || stage === 'PROCESSING') && (
+                                <div className="space-y-2">
+                                    <p className="text-center text-zinc-500 italic text-sm py-1">
+                                        {stage === 'ANALYZING' ? 'BUILDING CHARACTER BIBLE...' : stage === 'PLANNING' ? 'DRY RUN: PLANNING FRAMES...' : pauseRequested ? 'PAUSING AFTER FRAMES IN FLIGHT...' : 'AUTOMATED SEQUENCE RUNNING...'}
+                                    </p>
+                                    {inFlightFrames.map(frame => (
+                                        <div key={frame} className="flex items-center gap-2 text-[10px] uppercase">
+                                            <span className="w-1.5 h-1.5 bg-red-600 rounded-full animate-pulse shrink-0"></span>
+                                            <span className="flex-1 min-w-0 truncate text-zinc-400 normal-case" title={frame}>{frame}</span>
+                                            <button onClick={() => skipFrame(frame)} className="px-2 py-0.5 font-black border border-zinc-700 text-zinc-400 hover:text-amber-400">SKIP</button>
+                                        </div>
+                                    ))}
+                                    <div className="flex gap-2">
+                                        {stage === 'PROCESSING' && (
+                                            <button onClick={requestPause} disabled={pauseRequested} className="flex-1 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 disabled:text-zinc-600 font-black text-xs uppercase italic">PAUSE</button>
+                                        )}
+                                        <button onClick={cancelRun} className="flex-1 px-3 py-2 bg-zinc-800 hover:bg-red-900 font-black text-xs uppercase italic">CANCEL</button>
+                                    </div>
+                                </div>
                             )}
                             
+                            {stage === 'PAUSED' && (
+                                <div className="border border-amber-700/50 bg-amber-950/20 p-3 space-y-2">
+                                    <p className="text-[10px] text-amber-400 font-black uppercase">
+                                        {!interruption || interruption.reason === 'BUDGET REACHED'
+                                            ? `PAUSED AT BUDGET — ${formatCost(usage.run.cost)} OF ${formatCost(costSettings.budget)} SPENT`
+                                            : `PAUSED — ${interruption.reason}`}, {results.filter(r => r.status === 'DONE').length}/{Object.keys(processedImages).length} FRAMES DONE
+                                    </p>
+                                    <button onClick={resumeRun} className="w-full px-3 py-2 bg-amber-700 hover:bg-amber-600 font-black text-xs uppercase italic">RESUME</button>
+                                </div>
+                            )}
+
+                            {(stage === 'CANCELLED' || stage === 'FAILED') && (
+                                <div className={`border p-3 space-y-2 ${stage === 'FAILED' ? 'border-red-700/50 bg-red-950/20' : 'border-zinc-700 bg-zinc-900/40'}`}>
+                                    <p className={`text-[10px] font-black uppercase ${stage === 'FAILED' ? 'text-red-400' : 'text-zinc-400'}`}>
+                                        {stage} DURING {interruption?.stage || 'RUN'} — {interruption?.reason}
+                                    </p>
+                                    <p className="text-[10px] text-zinc-500 font-black uppercase">{results.filter(r => r.status === 'DONE').length}/{Object.keys(processedImages).length} FRAMES DONE</p>
+                                    <div className="flex gap-2">
+                                        <button onClick={resumeRun} className="flex-1 px-3 py-2 bg-amber-700 hover:bg-amber-600 font-black text-xs uppercase italic">{stage === 'FAILED' ? 'RETRY' : 'RESUME'}</button>
+                                        <button onClick={abandonRun} className="flex-1 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 font-black text-xs uppercase italic">NEW RUN</button>
+                                    </div>
+                                </div>
+                            )}
+
                             {stage === 'COMPLETE' && (
-                                <p className="text-center text-green-500 font-black text-lg py-3">PRODUCTION COMPLETE</p>
+                                <>
+                                    <p className="text-center text-green-500 font-black text-lg py-3">PRODUCTION COMPLETE</p>
+                                    {results.some(r => r.status === 'FAILED') && (
+                                        <button
+                                            onClick={rerunFailed}
+                                            className="w-full px-6 py-2 bg-zinc-900 hover:bg-zinc-800 text-amber-400 font-black text-xs uppercase italic border border-amber-700/50 transition-all"
+                                        >
+                                            RE-RUN FAILED ({results.filter(r => r.status === 'FAILED').length})
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => setIsReviewing(true)}
+                                        disabled={results.length === 0}
+                                        className="w-full px-6 py-3 bg-zinc-800 hover:bg-zinc-700 disabled:text-zinc-600 font-black text-sm uppercase italic border border-red-500/30 transition-all"
+                                    >
+                                        REVIEW FRAMES ({results.filter(r => r.status === 'DONE' && (r.review || 'PENDING') === 'PENDING').length} PENDING)
+                                    </button>
+                                    <button
+                                        onClick={() => exportProductionArchive(results.filter(r => r.review === 'ACCEPTED'))}
+                                        disabled={isExporting || !results.some(r => r.review === 'ACCEPTED')}
+                                        className="w-full px-6 py-3 bg-red-700 hover:bg-red-600 disabled:bg-zinc-800 disabled:text-zinc-600 font-black text-sm uppercase italic border border-red-500/30 transition-all"
+                                    >
+                                        {isExporting ? 'PACKAGING...' : `EXPORT ACCEPTED (${results.filter(r => r.review === 'ACCEPTED').length})`}
+                                    </button>
+
+                                    <div className="border border-zinc-800 p-3 space-y-2">
+                                        <p className="text-[10px] text-zinc-500 font-black uppercase">SCREENING — {screening.images.length} FRAMES</p>
+                                        <div className="flex gap-2">
+                                            <input type="file" multiple className="hidden" id="music-upload" onChange={handleMusicUpload} accept="audio/*" />
+                                            <label htmlFor="music-upload" className="flex-1 text-center cursor-pointer px-2 py-2 bg-zinc-900 hover:bg-zinc-800 text-[10px] font-black uppercase border border-zinc-700">
+                                                MUSIC ({musicTracks.length})
+                                            </label>
+                                            <input type="file" multiple className="hidden" id="scene-audio-upload" onChange={handleSceneAudioUpload} accept="audio/*" />
+                                            <label htmlFor="scene-audio-upload" className="flex-1 text-center cursor-pointer px-2 py-2 bg-zinc-900 hover:bg-zinc-800 text-[10px] font-black uppercase border border-zinc-700">
+                                                SCENE AUDIO ({sceneAudio.audio.length})
+                                            </label>
+                                        </div>
+                                        <button
+                                            onClick={generateVoices}
+                                            disabled={isVoicing || screening.images.length === 0}
+                                            className="w-full px-6 py-2 bg-zinc-900 hover:bg-zinc-800 disabled:text-zinc-600 font-black text-xs uppercase italic border border-zinc-700 transition-all"
+                                        >
+                                            {isVoicing ? 'VOICING...' : `GENERATE VOICES (${Object.keys(voiceClips).length} VOICED)`}
+                                        </button>
+                                        <button
+                                            onClick={() => setIsScreening(true)}
+                                            disabled={screening.images.length === 0}
+                                            className="w-full px-6 py-3 bg-zinc-800 hover:bg-zinc-700 disabled:text-zinc-600 font-black text-sm uppercase italic border border-red-500/30 transition-all"
+                                        >
+                                            SCREEN IT
+                                        </button>
+                                        <button
+                                            onClick={exportScreeningTimeline}
+                                            disabled={isExporting || screening.images.length === 0}
+                                            className="w-full px-6 py-2 bg-zinc-900 hover:bg-zinc-800 disabled:text-zinc-600 font-black text-xs uppercase italic border border-zinc-700 transition-all"
+                                        >
+                                            EXPORT SUBTITLES + EDL
+                                        </button>
+                                        {videoProgress === null ? (
+                                            <button
+                                                onClick={exportScreeningVideo}
+                                                disabled={screening.images.length === 0 || !isVideoExportSupported()}
+                                                className="w-full px-6 py-2 bg-zinc-900 hover:bg-zinc-800 disabled:text-zinc-600 font-black text-xs uppercase italic border border-zinc-700 transition-all"
+                                            >
+                                                {isVideoExportSupported() ? 'EXPORT VIDEO (WEBM)' : 'VIDEO EXPORT UNSUPPORTED'}
+                                            </button>
+                                        ) : (
+                                            <div className="flex items-center gap-2">
+                                                <div className="flex-1 h-2 bg-zinc-900 border border-zinc-800">
+                                                    <div className="h-full bg-red-700" style={{ width: `${Math.round(videoProgress * 100)}%` }} />
+                                                </div>
+                                                <span className="text-[10px] text-zinc-500 font-black">{Math.round(videoProgress * 100)}%</span>
+                                                <button onClick={() => videoAbortRef.current?.abort()} className="px-2 py-1 text-[10px] font-black uppercase border border-zinc-700 text-zinc-400 hover:text-red-400">CANCEL</button>
+                                            </div>
+                                        )}
+                                    </div>
+                                </>
                             )}
                         </div>
                     </section>
+
+                    <ProviderSettingsPanel
+                        settings={providerSettings}
+                        onChange={setProviderSettings}
+                        disabled={stage === 'ANALYZING' || stage === 'PLANNING' || stage === 'PROCESSING'}
+                    />
+
+                    <SchedulerSettingsPanel
+                        settings={schedulerSettings}
+                        onChange={setSchedulerSettings}
+                        disabled={stage === 'ANALYZING' || stage === 'PLANNING' || stage === 'PROCESSING'}
+                    />
+
+                    <CostSettingsPanel
+                        settings={costSettings}
+                        onChange={setCostSettings}
+                        models={Object.values(providerSettings.models)}
+                        usage={usage}
+                    />
+
+                    <ConsistencySettingsPanel
+                        settings={consistencySettings}
+                        onChange={setConsistencySettings}
+                        disabled={stage === 'PROCESSING'}
+                    />
+
+                    <StyleLibraryPanel
+                        baseStyle={style}
+                        onBaseStyleChange={updateBaseStyle}
+                        library={styleLibrary}
+                        onChange={updateStyleLibrary}
+                        frames={frameOrder}
+                        tags={sceneTags}
+                        counts={styleCounts}
+                        disabled={stage === 'PLANNING' || stage === 'PROCESSING'}
+                    />
+
+                    {story && (
+                        <StoryBeatsPanel
+                            story={story}
+                            frames={frameOrder}
+                            aligned={alignedBeats}
+                            overrides={beatOverrides}
+                            onChange={updateBeatOverrides}
+                            disabled={stage === 'PLANNING' || stage === 'PROCESSING'}
+                        />
+                    )}
+
+                    <FrameFormatPanel
+                        format={frameFormat}
+                        onChange={updateFrameFormat}
+                        disabled={stage === 'PROCESSING'}
+                    />
                 </div>
 
                 <div className="lg:col-span-8 flex flex-col bg-black overflow-hidden relative">
                     <div className="flex-1 flex flex-col overflow-hidden">
-                        <div 
-                            ref={consoleScrollRef}
-                            className="flex-1 overflow-y-auto p-4 space-y-1 font-mono text-[10px] bg-black"
-                        >
-                            {logs.length === 0 && <p className="text-zinc-800 italic uppercase opacity-40">System ready. Waiting for archive injection...</p>}
-                            {logs.map((log, i) => {
-                                const isError = log.includes('CRITICAL') || log.includes('ERROR');
-                                const isSuccess = log.includes('DOWNLOADED') || log.includes('READY');
-                                return (
-                                    <div key={i} className={`flex gap-3 px-2 py-0.5 border-l-2 transition-colors ${
-                                        isError ? 'border-red-600 text-red-400 bg-red-950/20' : 
-                                        isSuccess ? 'border-green-600 text-green-400 bg-green-950/10' :
-                                        'border-zinc-800 text-zinc-500'
-                                    }`}>
-                                        <span className="opacity-20 select-none text-[8px] w-8">[{i.toString().padStart(4, '0')}]</span>
-                                        <span className="flex-1">{log}</span>
-                                    </div>
-                                );
-                            })}
-                        </div>
+                        <EventLogConsole events={logEvents} onExport={exportEventLog} />
 
                         <div className="bg-zinc-950 px-4 py-2 border-t border-red-900/30 flex justify-between items-center shrink-0">
                             <div className="flex items-center gap-2">
-                                {(stage === 'PROCESSING' || stage === 'ANALYZING') && <div className="w-1.5 h-1.5 bg-red-600 animate-ping rounded-full"></div>}
+                                {(stage === 'PROCESSING' || stage === 'PLANNING' || stage === 'ANALYZING') && <div className="w-1.5 h-1.5 bg-red-600 animate-ping rounded-full"></div>}
                                 <span className="text-[10px] font-black text-red-600 uppercase truncate max-w-[200px] sm:max-w-md">{status}</span>
                             </div>
-                            <span className="text-[9px] text-zinc-700 font-black uppercase tracking-widest">{stage}</span>
+                            <div className="flex items-center gap-3 shrink-0">
+                                <span
+                                    className={`text-[9px] font-black uppercase ${costSettings.budget > 0 && usage.run.cost >= costSettings.budget ? 'text-amber-500' : 'text-zinc-500'}`}
+                                    title={`${usage.run.calls} CALLS · ${formatTokens(usage.run.inputTokens)} IN / ${formatTokens(usage.run.outputTokens)} OUT`}
+                                >
+                                    EST {formatCost(usage.run.cost)}{costSettings.budget > 0 && ` / ${formatCost(costSettings.budget)}`} · {formatTokens(usage.run.inputTokens + usage.run.outputTokens)} TOK
+                                </span>
+                                <span className="text-[9px] text-zinc-700 font-black uppercase tracking-widest">{stage}</span>
+                            </div>
                         </div>
                     </div>
 
-                    {(results.length > 0) && (
+                    {(results.some(item => item.base64)) && (
                         <div className="shrink-0 h-24 bg-zinc-950 border-t border-red-900/40 p-2 flex gap-2 overflow-x-auto">
-                            {results.slice(-15).reverse().map((item, idx) => (
+                            {results.filter(item => item.base64).slice(-15).reverse().map((item, idx) => (
                                 <div key={idx} className="h-full aspect-square bg-zinc-900 border border-red-900/20 group relative overflow-hidden shrink-0">
                                     <img src={`data:image/png;base64,${item.base64}`} alt="Frame" className="w-full h-full object-cover" />
                                 </div>
@@ -350,6 +1172,84 @@ const App: React.FC = () => {
                     )}
                 </div>
             </main>
+
+            {stage === 'VALIDATING' && !isUploading && pendingArchives && (
+                <ArchiveRolePanel archives={pendingArchives} onConfirm={confirmArchiveRoles} onCancel={discardIngest} />
+            )}
+
+            {stage === 'VALIDATING' && !isUploading && !pendingArchives && (
+                <IngestReportPanel
+                    report={ingestReport}
+                    duplicates={duplicateEntries}
+                    frameCount={Object.keys(processedImages).length}
+                    avatarCount={Object.keys(avatars).length}
+                    onProceed={proceedFromIngest}
+                    onCancel={discardIngest}
+                />
+            )}
+
+            {stage === 'MAPPING' && preProductionStep === 'BIBLE' && (
+                <BibleEditor
+                    bible={characterBible}
+                    avatarFiles={Object.keys(avatars).sort()}
+                    onChange={updateBible}
+                    onConfirm={confirmBible}
+                />
+            )}
+
+            {stage === 'MAPPING' && preProductionStep === 'CAST' && (
+                <CastMappingTable
+                    cast={cast}
+                    avatars={avatars}
+                    frames={frameOrder}
+                    onChange={updateCast}
+                    onBack={() => setPreProductionStep('BIBLE')}
+                    onConfirm={confirmCast}
+                    onPlan={planFromCast}
+                />
+            )}
+
+            {stage === 'PLANNED' && plan && (
+                <PlanTable
+                    plans={plan}
+                    sources={processedImages}
+                    avatars={avatars}
+                    characters={cast.characters}
+                    avatarFor={castAvatarFor}
+                    onChange={updatePlan}
+                    onExport={exportPlan}
+                    onRebuildPrompts={rebuildPlanPrompts}
+                    onBack={() => {
+                        setPreProductionStep('CAST');
+                        persist(updateCheckpoint({ stage: 'MAPPING' }));
+                        setStage('MAPPING');
+                    }}
+                    onExecute={executePlan}
+                />
+            )}
+
+            {isReviewing && (
+                <ReviewGallery
+                    items={results}
+                    sources={processedImages}
+                    avatars={avatars}
+                    regenerating={regenerating}
+                    characters={cast.characters}
+                    avatarFor={castAvatarFor}
+                    onDecide={decideFrame}
+                    onRegenerate={regenerateFrame}
+                    onClose={() => setIsReviewing(false)}
+                />
+            )}
+
+            {isScreening && (
+                <PresentationPlayer
+                    initialItems={[...screening.images, ...sceneAudio.audio]}
+                    script={screening.script}
+                    backgroundMusic={musicTracks.map(track => track.url)}
+                    onClose={() => setIsScreening(false)}
+                />
+            )}
         </div>
     );
 };
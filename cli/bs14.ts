@@ -0,0 +1,225 @@
+import { openAsBlob } from 'node:fs';
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { productionFiles } from '../services/exportService';
+import { IngestError } from '../services/errors';
+import { ArchiveRole, ArchiveSource, openArchive, OpenedArchive } from '../services/ingestService';
+import { errorDetails, getLogEvents, LogEvent, logEvent, levelRank, setLogListener, toJsonl } from '../services/logService';
+import { outputNames, runPipeline } from '../services/pipeline';
+import { configureProvider, DEFAULT_PROVIDER_SETTINGS, ProviderId, PROVIDER_FACTORIES } from '../services/providers';
+import { createRunControl } from '../services/runControl';
+import { configureScheduler, DEFAULT_SCHEDULER_SETTINGS, setRetryListener } from '../services/scheduler';
+import { configureCosts, DEFAULT_COST_SETTINGS, formatCost, summarizeUsage } from '../services/usageService';
+
+/**
+ * Headless batch runner. Runs the whole pipeline over an avatars and a
+ * processed archive with no review steps and writes the production layout
+ * (frames, meta, manifest, bible, script) plus the event log to a directory.
+ *
+ * Exit codes: 0 when every frame finished, 1 when any frame failed or the run
+ * stopped early, 2 for bad arguments or archives that cannot be used.
+ */
+
+const USAGE = `Usage: bs14 run <avatars.zip|dir> <processed.zip|dir> [options]
+
+Options:
+  --out <dir>          Output directory (default: ./production_run)
+  --style <file>       Base style text; overrides style.txt in the archive
+  --provider <id>      gemini or mock (default: gemini when GEMINI_API_KEY is set)
+  --concurrency <n>    Frames processed in parallel (default: ${DEFAULT_SCHEDULER_SETTINGS.concurrency})
+  --budget <usd>       Stop starting frames once this estimate is reached (default: no cap)
+  --verbose            Also print debug events (every model call)
+`;
+
+interface CliOptions {
+    avatars: string;
+    processed: string;
+    out: string;
+    style: string | null;
+    provider: ProviderId;
+    concurrency: number;
+    budget: number;
+    verbose: boolean;
+}
+
+/** @throws Error with a message for the user when the arguments are unusable. */
+function parseArgs(argv: string[]): CliOptions {
+    const [command, ...rest] = argv;
+    if (command !== 'run') throw new Error(command ? `Unknown command "${command}".` : 'No command given.');
+
+    const positional: string[] = [];
+    const options: CliOptions = {
+        avatars: '',
+        processed: '',
+        out: 'production_run',
+        style: null,
+        provider: process.env.API_KEY ? 'gemini' : 'mock',
+        concurrency: DEFAULT_SCHEDULER_SETTINGS.concurrency,
+        budget: 0,
+        verbose: false,
+    };
+    const value = (flag: string) => {
+        const next = rest.shift();
+        if (next === undefined || next.startsWith('--')) throw new Error(`${flag} needs a value.`);
+        return next;
+    };
+    const number = (flag: string, min: number) => {
+        const parsed = Number(value(flag));
+        if (!Number.isFinite(parsed) || parsed < min) throw new Error(`${flag} must be a number of at least ${min}.`);
+        return parsed;
+    };
+
+    while (rest.length > 0) {
+        const arg = rest.shift()!;
+        if (arg === '--out') options.out = value(arg);
+        else if (arg === '--style') options.style = value(arg);
+        else if (arg === '--concurrency') options.concurrency = Math.floor(number(arg, 1));
+        else if (arg === '--budget') options.budget = number(arg, 0);
+        else if (arg === '--verbose') options.verbose = true;
+        else if (arg === '--provider') {
+            const id = value(arg);
+            if (!(id in PROVIDER_FACTORIES)) throw new Error(`Unknown provider "${id}".`);
+            options.provider = id as ProviderId;
+        } else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}.`);
+        else positional.push(arg);
+    }
+
+    if (positional.length !== 2) throw new Error('Expected an avatars archive and a processed archive.');
+    [options.avatars, options.processed] = positional;
+    return options;
+}
+
+/** @throws Error with a message for the user when the style file is unreadable or empty. */
+async function readStyle(file: string): Promise<string> {
+    let text: string;
+    try {
+        text = await readFile(file, 'utf8');
+    } catch (err) {
+        throw new Error(`Cannot read --style file "${file}": ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (!text.trim()) throw new Error(`--style file "${file}" is empty.`);
+    return text.trim();
+}
+
+const formatEvent = (event: LogEvent) =>
+    `${event.time.slice(11, 19)} ${event.level.toUpperCase().padEnd(7)} ${event.frame ? `[${event.frame}] ` : ''}${event.message}`
+    + (event.error ? ` — ${event.error.message}` : '');
+
+/** Every file under `dir`, with paths relative to it; contents are read lazily. */
+async function folderFiles(dir: string): Promise<{ path: string; file: Blob }[]> {
+    const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+    return Promise.all(entries.filter(entry => entry.isFile()).map(async entry => {
+        const full = path.join(entry.parentPath, entry.name);
+        return { path: path.relative(dir, full).split(path.sep).join('/'), file: await openAsBlob(full) };
+    }));
+}
+
+/** Opens a ZIP or a directory. The position on the command line gives the role wherever its manifest.json does not. */
+async function openInput(file: string, role: ArchiveRole): Promise<OpenedArchive> {
+    const name = path.basename(file);
+    const source: ArchiveSource = (await stat(file)).isDirectory()
+        ? { kind: 'folder', name, files: await folderFiles(file) }
+        : { kind: 'zip', name, data: await readFile(file) };
+    return openArchive(source, role);
+}
+
+/** Writes `content` under `outDir`, refusing paths that would land outside it. */
+async function writeOutput(outDir: string, relative: string, content: string | Uint8Array) {
+    const target = path.resolve(outDir, relative);
+    if (!target.startsWith(outDir + path.sep)) throw new Error(`Refusing to write outside the output directory: ${relative}`);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, content);
+}
+
+async function main(argv: string[]): Promise<number> {
+    if (argv.length === 0 || argv.includes('--help')) {
+        process.stdout.write(USAGE);
+        return argv.length === 0 ? 2 : 0;
+    }
+    let options: CliOptions;
+    let style: string | undefined;
+    try {
+        options = parseArgs(argv);
+        style = options.style === null ? undefined : await readStyle(options.style);
+    } catch (err) {
+        process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n\n${USAGE}`);
+        return 2;
+    }
+
+    configureProvider({ ...DEFAULT_PROVIDER_SETTINGS, providerId: options.provider });
+    configureScheduler({ ...DEFAULT_SCHEDULER_SETTINGS, concurrency: options.concurrency });
+    configureCosts({ ...DEFAULT_COST_SETTINGS, budget: options.budget });
+
+    const floor = levelRank(options.verbose ? 'debug' : 'info');
+    setLogListener(event => {
+        if (levelRank(event.level) >= floor) process.stderr.write(`${formatEvent(event)}\n`);
+    });
+    setRetryListener(({ label, attempt, delayMs, error }) => {
+        logEvent('warn', `RETRY ${attempt} [${label}] IN ${(delayMs / 1000).toFixed(1)}s`, { error: errorDetails(error) });
+    });
+
+    const control = createRunControl();
+    // First Ctrl-C cancels cleanly and still writes the event log; a second one kills the process.
+    process.once('SIGINT', () => {
+        logEvent('warn', "INTERRUPTED: CANCELLING REQUESTS IN FLIGHT.");
+        control.cancel();
+    });
+
+    const outDir = path.resolve(options.out);
+    let archives: OpenedArchive[];
+    try {
+        archives = [await openInput(options.avatars, 'avatars'), await openInput(options.processed, 'processed')];
+    } catch (err) {
+        const message = err instanceof IngestError ? err.message : `CANNOT READ INPUT: ${err instanceof Error ? err.message : String(err)}`;
+        process.stderr.write(`${message}\n`);
+        return 2;
+    }
+
+    try {
+        logEvent('info', `PROVIDER: ${options.provider.toUpperCase()}. WRITING TO ${outDir}`);
+
+        const run = await runPipeline(archives, {
+            control,
+            concurrency: options.concurrency,
+            style,
+            onEvent: event => {
+                if (event.type === 'frame-started') logEvent('info', `PROCESS: [${event.index}/${event.total}]`, { frame: event.frame });
+            },
+        });
+
+        const files = productionFiles({
+            results: run.results,
+            names: outputNames(run.context),
+            bible: run.context.bible,
+            script: run.ingested.fullScript.content,
+            style: run.context.style,
+            styles: run.context.styles,
+        });
+        for (const file of files) {
+            await writeOutput(outDir, file.path, file.base64 ? Buffer.from(file.content, 'base64') : file.content);
+        }
+
+        const done = run.results.filter(r => r.status === 'DONE').length;
+        const failed = run.results.filter(r => r.status === 'FAILED').length;
+        const skipped = run.results.filter(r => r.status === 'SKIPPED').length;
+        const summary = `${done} DONE, ${failed} FAILED, ${skipped} SKIPPED FOR ${formatCost(summarizeUsage().run.cost)}.`;
+        if (run.paused) logEvent('warn', `RUN STOPPED EARLY (${run.paused}): ${summary}`);
+        else logEvent(failed > 0 ? 'error' : 'success', `RUN COMPLETE: ${summary}`);
+        return failed > 0 || run.paused ? 1 : 0;
+    } catch (err) {
+        if (control.cancelled) logEvent('warn', "RUN CANCELLED.");
+        else logEvent('error', "RUN FAILED", { error: errorDetails(err) });
+        return 1;
+    } finally {
+        // The log is written even when the run fails, since that is when it is needed.
+        await writeOutput(outDir, 'event_log.jsonl', toJsonl(getLogEvents())).catch(err =>
+            process.stderr.write(`Could not write the event log: ${err instanceof Error ? err.message : String(err)}\n`));
+    }
+}
+
+// GEMINI_API_KEY is the name used in .env.local; the provider reads API_KEY.
+process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+
+main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+});
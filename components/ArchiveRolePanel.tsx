@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { ARCHIVE_ROLES, ArchiveRole, countContents, OpenedArchive } from '../services/ingestService';
+import Button from './Button';
+
+interface ArchiveRolePanelProps {
+    archives: OpenedArchive[];
+    /** One role per archive, in order; null leaves its unassigned files out. */
+    onConfirm: (roles: (ArchiveRole | null)[]) => void;
+    onCancel: () => void;
+}
+
+const ArchiveRolePanel: React.FC<ArchiveRolePanelProps> = ({ archives, onConfirm, onCancel }) => {
+    const [roles, setRoles] = useState<(ArchiveRole | null)[]>(() => archives.map(() => null));
+    const pending = archives.map((archive, index) => ({ archive, index })).filter(({ archive }) => countContents(archive.unassigned) > 0);
+
+    return (
+        <div className="fixed inset-0 bg-black/95 z-40 flex items-center justify-center p-6 font-mono animate-fade-in" role="dialog" aria-modal="true" aria-labelledby="roles-title">
+            <div className="w-full max-w-2xl border border-red-900/40 bg-zinc-950 p-6 space-y-4">
+                <h2 id="roles-title" className="text-sm font-black text-red-500 uppercase">ARCHIVE_ROLES</h2>
+                <p className="text-[10px] text-zinc-500 uppercase">
+                    These archives have no manifest.json and their names do not say whether they hold avatars or processed frames. Pick a role, or leave their files out.
+                </p>
+
+                <ul className="space-y-2">
+                    {pending.map(({ archive, index }) => (
+                        <li key={`${archive.name}-${index}`} className="flex items-center gap-3 border border-zinc-800 p-3">
+                            <span className="flex-1 min-w-0">
+                                <span className="block text-xs text-zinc-200 truncate">{archive.name}</span>
+                                <span className="block text-[9px] text-zinc-600 uppercase">
+                                    {Object.keys(archive.unassigned.images).length} IMAGES, {archive.unassigned.texts.length} TEXT FILES
+                                </span>
+                            </span>
+                            <select
+                                value={roles[index] || ''}
+                                onChange={e => setRoles(prev => prev.map((role, i) => (i === index ? (e.target.value as ArchiveRole) || null : role)))}
+                                className="bg-black border border-zinc-700 text-zinc-300 text-[10px] uppercase px-2 py-1"
+                                aria-label={`Role for ${archive.name}`}
+                            >
+                                <option value="">LEAVE OUT</option>
+                                {ARCHIVE_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                            </select>
+                        </li>
+                    ))}
+                </ul>
+
+                <div className="flex justify-end gap-3">
+                    <button onClick={onCancel} className="px-3 py-1 text-[10px] font-black uppercase border border-zinc-700 text-zinc-400 hover:text-red-400">
+                        DISCARD ARCHIVES
+                    </button>
+                    <Button onClick={() => onConfirm(roles)} className="px-4 py-1 text-xs font-black uppercase">
+                        CONTINUE
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ArchiveRolePanel;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { AnalyzedCharacter } from '../types';
+import { emptyBibleEntry } from '../services/bibleService';
+import Button from './Button';
+
+interface BibleEditorProps {
+    bible: AnalyzedCharacter[];
+    avatarFiles: string[];
+    onChange: (bible: AnalyzedCharacter[]) => void;
+    onConfirm: () => void;
+}
+
+type TextField = 'race' | 'visualTraits' | 'dialogueStyle' | 'voiceDescription' | 'otherDescriptors';
+
+const TEXT_FIELDS: { key: TextField; label: string; rows: number }[] = [
+    { key: 'visualTraits', label: 'VISUAL TRAITS', rows: 3 },
+    { key: 'dialogueStyle', label: 'DIALOGUE STYLE', rows: 2 },
+    { key: 'voiceDescription', label: 'VOICE', rows: 1 },
+    { key: 'race', label: 'RACE / SPECIES', rows: 1 },
+    { key: 'otherDescriptors', label: 'NOTES', rows: 2 },
+];
+
+const BibleEditor: React.FC<BibleEditorProps> = ({ bible, avatarFiles, onChange, onConfirm }) => {
+    const update = (index: number, patch: Partial<AnalyzedCharacter>) => {
+        onChange(bible.map((entry, i) => (i === index ? { ...entry, ...patch } : entry)));
+    };
+
+    const hasBlankNames = bible.some(entry => !entry.name.trim());
+
+    return (
+        <div className="fixed inset-0 bg-black/95 z-40 flex flex-col font-mono animate-fade-in" role="dialog" aria-modal="true" aria-labelledby="bible-title">
+            <header className="shrink-0 px-6 py-3 border-b border-red-900/40 flex flex-wrap items-center gap-3">
+                <h2 id="bible-title" className="text-sm font-black text-red-500 uppercase mr-auto">
+                    CHARACTER_BIBLE — {bible.length} ENTRIES
+                </h2>
+                <button onClick={() => onChange([...bible, emptyBibleEntry()])} className="px-3 py-1 text-[10px] font-black uppercase border border-zinc-700 text-zinc-400 hover:text-red-400">
+                    ADD CHARACTER
+                </button>
+                <Button onClick={onConfirm} disabled={hasBlankNames} className="px-4 py-1 text-xs font-black uppercase">CONTINUE TO CAST</Button>
+            </header>
+
+            <div className="flex-1 overflow-y-auto p-6 grid grid-cols-1 xl:grid-cols-2 gap-4 content-start">
+                {bible.map((entry, index) => (
+                    <div key={index} className="bg-zinc-950 border border-zinc-900 p-3 space-y-2 text-[10px] uppercase">
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                value={entry.name}
+                                onChange={e => update(index, { name: e.target.value })}
+                                placeholder="NAME"
+                                className={`flex-1 bg-black border px-2 py-1 text-red-400 font-black ${entry.name.trim() ? 'border-red-900/40' : 'border-red-500'}`}
+                            />
+                            <select
+                                value={entry.gender}
+                                onChange={e => update(index, { gender: e.target.value as AnalyzedCharacter['gender'] })}
+                                className="bg-black border border-red-900/40 text-zinc-300 px-2 py-1"
+                            >
+                                <option value="male">MALE</option>
+                                <option value="female">FEMALE</option>
+                                <option value="unknown">UNKNOWN</option>
+                            </select>
+                            <button onClick={() => onChange(bible.filter((_, i) => i !== index))} className="text-zinc-600 hover:text-red-500 px-2" aria-label={`Remove ${entry.name}`}>✕</button>
+                        </div>
+                        <label className="flex items-center gap-2">
+                            <span className="text-zinc-500 font-black w-28">AVATAR</span>
+                            <select
+                                value={entry.avatarFilename || ''}
+                                onChange={e => update(index, { avatarFilename: e.target.value || null })}
+                                className="flex-1 bg-black border border-red-900/40 text-zinc-300 px-2 py-1 normal-case"
+                            >
+                                <option value="">— NONE —</option>
+                                {entry.avatarFilename && !avatarFiles.includes(entry.avatarFilename) && (
+                                    <option value={entry.avatarFilename}>{entry.avatarFilename} (NOT LOADED)</option>
+                                )}
+                                {avatarFiles.map(file => <option key={file} value={file}>{file}</option>)}
+                            </select>
+                        </label>
+                        {TEXT_FIELDS.map(({ key, label, rows }) => (
+                            <label key={key} className="flex items-start gap-2">
+                                <span className="text-zinc-500 font-black w-28 pt-1">{label}</span>
+                                <textarea
+                                    value={entry[key] || ''}
+                                    rows={rows}
+                                    onChange={e => update(index, { [key]: e.target.value })}
+                                    className="flex-1 bg-black border border-red-900/40 text-zinc-300 px-2 py-1 normal-case"
+                                />
+                            </label>
+                        ))}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default BibleEditor;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { CastMapping, SourceImage } from '../types';
+import { autoMatchCast, normalizeName } from '../services/castService';
+import Button from './Button';
+
+interface CastMappingTableProps {
+    cast: CastMapping;
+    avatars: Record<string, SourceImage>;
+    frames: string[];
+    onChange: (cast: CastMapping) => void;
+    onBack: () => void;
+    onConfirm: () => void;
+    /** Dry run: plan every frame without generating images. */
+    onPlan: () => void;
+}
+
+const CastMappingTable: React.FC<CastMappingTableProps> = ({ cast, avatars, frames, onChange, onBack, onConfirm, onPlan }) => {
+    const [newCharacter, setNewCharacter] = useState('');
+    const avatarFiles = Object.keys(avatars).sort();
+    const usedAvatars = new Set(Object.values(cast.pinned));
+
+    const setPin = (character: string, avatar: string) => {
+        const pinned = { ...cast.pinned };
+        if (avatar) pinned[character] = avatar;
+        else delete pinned[character];
+        onChange({ ...cast, pinned });
+    };
+
+    const addCharacter = () => {
+        const name = newCharacter.trim();
+        if (!name || cast.characters.some(c => normalizeName(c) === normalizeName(name))) return;
+        onChange({ ...cast, characters: [...cast.characters, name] });
+        setNewCharacter('');
+    };
+
+    const removeCharacter = (character: string) => {
+        const pinned = { ...cast.pinned };
+        delete pinned[character];
+        const frameSubjects = Object.fromEntries(Object.entries(cast.frameSubjects).filter(([, subject]) => subject !== character));
+        onChange({ characters: cast.characters.filter(c => c !== character), pinned, frameSubjects });
+    };
+
+    const setFrameSubject = (frame: string, character: string) => {
+        const frameSubjects = { ...cast.frameSubjects };
+        if (character) frameSubjects[frame] = character;
+        else delete frameSubjects[frame];
+        onChange({ ...cast, frameSubjects });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/95 z-40 flex flex-col font-mono animate-fade-in" role="dialog" aria-modal="true" aria-labelledby="cast-title">
+            <header className="shrink-0 px-6 py-3 border-b border-red-900/40 flex flex-wrap items-center gap-3">
+                <h2 id="cast-title" className="text-sm font-black text-red-500 uppercase mr-auto">
+                    CAST_MAPPING — {Object.keys(cast.pinned).length} PINNED / {cast.characters.length} CHARACTERS / {avatarFiles.length} AVATARS
+                </h2>
+                <button onClick={onBack} className="px-3 py-1 text-[10px] font-black uppercase border border-zinc-700 text-zinc-400 hover:text-red-400">
+                    BACK TO BIBLE
+                </button>
+                <button onClick={() => onChange(autoMatchCast(cast, avatarFiles))} className="px-3 py-1 text-[10px] font-black uppercase border border-zinc-700 text-zinc-400 hover:text-red-400">
+                    AUTO-MATCH BY FILENAME
+                </button>
+                <button onClick={onPlan} className="px-3 py-1 text-[10px] font-black uppercase border border-amber-700 text-amber-400 hover:text-amber-300">
+                    DRY RUN (PLAN ONLY)
+                </button>
+                <Button onClick={onConfirm} className="px-4 py-1 text-xs font-black uppercase">START PRODUCTION</Button>
+            </header>
+
+            <div className="flex-1 overflow-hidden grid grid-cols-1 lg:grid-cols-2">
+                <section className="overflow-y-auto p-6 border-r border-red-900/20 space-y-2">
+                    <h3 className="text-[10px] font-black text-zinc-500 uppercase mb-2">CHARACTER → AVATAR (PINNED MAPPINGS OVERRIDE THE MODEL)</h3>
+                    {cast.characters.map(character => {
+                        const avatar = cast.pinned[character] ? avatars[cast.pinned[character]] : null;
+                        return (
+                            <div key={character} className="flex items-center gap-3 text-[10px] uppercase bg-zinc-950 border border-zinc-900 p-2">
+                                <div className="w-10 h-10 bg-black border border-red-900/30 shrink-0">
+                                    {avatar && <img src={`data:${avatar.mimeType};base64,${avatar.base64}`} alt={character} className="w-full h-full object-cover" />}
+                                </div>
+                                <span className="w-40 truncate text-red-400 font-black">{character}</span>
+                                <select
+                                    value={cast.pinned[character] || ''}
+                                    onChange={e => setPin(character, e.target.value)}
+                                    className="flex-1 bg-black border border-red-900/40 text-zinc-300 px-2 py-1 normal-case"
+                                >
+                                    <option value="">— MODEL DECIDES —</option>
+                                    {avatarFiles.map(file => (
+                                        <option key={file} value={file}>{file}{usedAvatars.has(file) && cast.pinned[character] !== file ? ' (in use)' : ''}</option>
+                                    ))}
+                                </select>
+                                <button onClick={() => removeCharacter(character)} className="text-zinc-600 hover:text-red-500 px-2" aria-label={`Remove ${character}`}>✕</button>
+                            </div>
+                        );
+                    })}
+                    <div className="flex gap-2 pt-2">
+                        <input
+                            type="text"
+                            value={newCharacter}
+                            onChange={e => setNewCharacter(e.target.value)}
+                            onKeyDown={e => e.key === 'Enter' && addCharacter()}
+                            placeholder="ADD CHARACTER"
+                            className="flex-1 bg-black border border-red-900/40 text-zinc-300 px-2 py-1 text-[10px]"
+                        />
+                        <button onClick={addCharacter} className="px-3 py-1 text-[10px] font-black uppercase bg-zinc-800 hover:bg-zinc-700">ADD</button>
+                    </div>
+                    <p className="text-[9px] text-zinc-700 uppercase pt-4">UNPINNED AVATARS: {avatarFiles.filter(f => !usedAvatars.has(f)).join(', ') || 'NONE'}</p>
+                </section>
+
+                <section className="overflow-y-auto p-6 space-y-1">
+                    <h3 className="text-[10px] font-black text-zinc-500 uppercase mb-2">PER-FRAME SUBJECT OVERRIDES</h3>
+                    {frames.map(frame => (
+                        <div key={frame} className="flex items-center gap-3 text-[10px]">
+                            <span className="flex-1 truncate text-zinc-500">{frame}</span>
+                            <select
+                                value={cast.frameSubjects[frame] || ''}
+                                onChange={e => setFrameSubject(frame, e.target.value)}
+                                className={`w-48 bg-black border px-2 py-0.5 ${cast.frameSubjects[frame] ? 'border-amber-600 text-amber-400' : 'border-zinc-900 text-zinc-600'}`}
+                            >
+                                <option value="">— MODEL DECIDES —</option>
+                                {cast.characters.map(character => <option key={character} value={character}>{character}</option>)}
+                            </select>
+                        </div>
+                    ))}
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default CastMappingTable;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { ConsistencySettings } from '../services/consistencyService';
+
+interface ConsistencySettingsPanelProps {
+    settings: ConsistencySettings;
+    onChange: (settings: ConsistencySettings) => void;
+    disabled?: boolean;
+}
+
+const ConsistencySettingsPanel: React.FC<ConsistencySettingsPanelProps> = ({ settings, onChange, disabled }) => {
+    return (
+        <section className="bg-zinc-900/50 border border-red-900/40 p-5 rounded-sm shadow-xl">
+            <h2 className="text-xs font-black text-red-500 uppercase mb-4">CONSISTENCY_CHECK</h2>
+            <div className="space-y-2 text-[10px] uppercase">
+                <label className="flex items-center justify-between gap-3">
+                    <span className="text-zinc-500 font-black">SCORE EVERY FRAME</span>
+                    <input
+                        type="checkbox"
+                        checked={settings.enabled}
+                        disabled={disabled}
+                        onChange={e => onChange({ ...settings, enabled: e.target.checked })}
+                        className="accent-red-600"
+                    />
+                </label>
+                <label className="flex items-center justify-between gap-3">
+                    <span className="text-zinc-500 font-black">FLAG BELOW (0–1)</span>
+                    <input
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={settings.threshold}
+                        disabled={disabled || !settings.enabled}
+                        onChange={e => onChange({ ...settings, threshold: Math.min(1, Math.max(0, Number(e.target.value) || 0)) })}
+                        className="w-24 bg-black border border-red-900/40 text-zinc-300 px-2 py-1 text-right"
+                    />
+                </label>
+                <label className="flex items-center justify-between gap-3">
+                    <span className="text-zinc-500 font-black">AUTO-REGENERATE (0 = FLAG ONLY)</span>
+                    <input
+                        type="number"
+                        min={0}
+                        value={settings.maxRegenerations}
+                        disabled={disabled || !settings.enabled}
+                        onChange={e => onChange({ ...settings, maxRegenerations: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                        className="w-24 bg-black border border-red-900/40 text-zinc-300 px-2 py-1 text-right"
+                    />
+                </label>
+            </div>
+        </section>
+    );
+};
+
+export default ConsistencySettingsPanel;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { MODEL_STAGES } from '../services/providers';
+import { CostSettings, formatCost, formatTokens, ModelPrice, UsageSummary } from '../services/usageService';
+
+interface CostSettingsPanelProps {
+    settings: CostSettings;
+    onChange: (settings: CostSettings) => void;
+    /** Models currently routed to a stage; only these get a price row. */
+    models: string[];
+    usage: UsageSummary;
+}
+
+const CostSettingsPanel: React.FC<CostSettingsPanelProps> = ({ settings, onChange, models, usage }) => {
+    const setPrice = (model: string, key: keyof ModelPrice, value: number) => {
+        const current = settings.prices[model] || { inputPerMillion: 0, outputPerMillion: 0 };
+        onChange({ ...settings, prices: { ...settings.prices, [model]: { ...current, [key]: Math.max(0, value) } } });
+    };
+    const spent = MODEL_STAGES.filter(stage => usage.byStage[stage]);
+
+    return (
+        <section className="bg-zinc-900/50 border border-red-900/40 p-5 rounded-sm shadow-xl">
+            <h2 className="text-xs font-black text-red-500 uppercase mb-4">COST</h2>
+            <div className="space-y-2 text-[10px] uppercase">
+                <label className="flex items-center justify-between gap-3">
+                    <span className="text-zinc-500 font-black">RUN BUDGET USD (0 = NO CAP)</span>
+                    <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={settings.budget}
+                        onChange={e => onChange({ ...settings, budget: Math.max(0, Number(e.target.value) || 0) })}
+                        className="w-24 bg-black border border-red-900/40 text-zinc-300 px-2 py-1 text-right"
+                    />
+                </label>
+
+                <p className="text-zinc-600 font-black pt-2">PRICE / 1M TOKENS (IN · OUT)</p>
+                {Array.from(new Set<string>(models)).map(model => (
+                    <div key={model} className="flex items-center justify-between gap-2">
+                        <span className="text-zinc-500 font-black normal-case truncate" title={model}>{model}</span>
+                        <div className="flex gap-1 shrink-0">
+                            {(['inputPerMillion', 'outputPerMillion'] as const).map(key => (
+                                <input
+                                    key={key}
+                                    type="number"
+                                    min={0}
+                                    step={0.05}
+                                    value={settings.prices[model]?.[key] ?? 0}
+                                    onChange={e => setPrice(model, key, Number(e.target.value) || 0)}
+                                    className="w-16 bg-black border border-red-900/40 text-zinc-300 px-2 py-1 text-right"
+                                />
+                            ))}
+                        </div>
+                    </div>
+                ))}
+
+                {spent.length > 0 && (
+                    <>
+                        <p className="text-zinc-600 font-black pt-2">THIS RUN</p>
+                        {spent.map(stage => {
+                            const totals = usage.byStage[stage]!;
+                            return (
+                                <div key={stage} className="flex justify-between gap-3 text-zinc-500">
+                                    <span className="font-black">{stage} ×{totals.calls}</span>
+                                    <span>{formatTokens(totals.inputTokens + totals.outputTokens)} TOK · {formatCost(totals.cost)}</span>
+                                </div>
+                            );
+                        })}
+                    </>
+                )}
+            </div>
+        </section>
+    );
+};
+
+export default CostSettingsPanel;
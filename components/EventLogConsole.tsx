@@ -0,0 +1,86 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { filterEvents, LOG_LEVELS, LogEvent, LogLevel } from '../services/logService';
+import { compareFrameNames } from '../services/sidecarService';
+
+interface EventLogConsoleProps {
+    events: LogEvent[];
+    onExport: () => void;
+}
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+    debug: 'border-zinc-900 text-zinc-600',
+    info: 'border-zinc-800 text-zinc-500',
+    success: 'border-green-600 text-green-400 bg-green-950/10',
+    warn: 'border-amber-600 text-amber-400 bg-amber-950/10',
+    error: 'border-red-600 text-red-400 bg-red-950/20',
+};
+
+// 'success' is a display variant of 'info', so it is not offered as a filter.
+const FILTER_LEVELS = LOG_LEVELS.filter(level => level !== 'success');
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+const EventLogConsole: React.FC<EventLogConsoleProps> = ({ events, onExport }) => {
+    const [minLevel, setMinLevel] = useState<LogLevel>('info');
+    const [frame, setFrame] = useState<string>('');
+    const scrollRef = useRef<HTMLDivElement>(null);
+
+    const frames = useMemo(() => Array.from(new Set<string>(events.flatMap(e => (e.frame ? [e.frame] : [])))).sort(compareFrameNames), [events]);
+    const visible = useMemo(() => filterEvents(events, minLevel, frame || null), [events, minLevel, frame]);
+
+    useEffect(() => {
+        if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }, [visible.length]);
+
+    return (
+        <div className="flex-1 flex flex-col overflow-hidden">
+            <div className="shrink-0 flex items-center gap-2 px-4 py-1.5 border-b border-red-900/20 bg-zinc-950 text-[9px] font-black uppercase">
+                <select
+                    value={minLevel}
+                    onChange={e => setMinLevel(e.target.value as LogLevel)}
+                    className="bg-black border border-zinc-800 text-zinc-400 px-1 py-0.5 uppercase"
+                    aria-label="Minimum level"
+                >
+                    {FILTER_LEVELS.map(level => <option key={level} value={level}>{level} +</option>)}
+                </select>
+                <select
+                    value={frame}
+                    onChange={e => setFrame(e.target.value)}
+                    className="max-w-[12rem] bg-black border border-zinc-800 text-zinc-400 px-1 py-0.5 normal-case"
+                    aria-label="Frame"
+                >
+                    <option value="">ALL FRAMES</option>
+                    {frames.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+                <span className="text-zinc-700 mr-auto">{visible.length}/{events.length} EVENTS</span>
+                <button onClick={onExport} disabled={events.length === 0} className="px-2 py-0.5 border border-zinc-700 text-zinc-400 hover:text-red-400 disabled:text-zinc-700">
+                    EXPORT JSONL
+                </button>
+            </div>
+
+            <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-1 font-mono text-[10px] bg-black">
+                {events.length === 0 && <p className="text-zinc-800 italic uppercase opacity-40">System ready. Waiting for archive injection...</p>}
+                {visible.map(event => (
+                    <div key={event.seq} className={`flex gap-3 px-2 py-0.5 border-l-2 transition-colors ${LEVEL_STYLES[event.level]}`}>
+                        <span className="opacity-20 select-none text-[8px] w-8 shrink-0">[{event.seq.toString().padStart(4, '0')}]</span>
+                        <span className="opacity-40 shrink-0">{new Date(event.time).toLocaleTimeString()}</span>
+                        <span className="opacity-40 shrink-0 w-16 truncate">{event.stage}</span>
+                        <span className="flex-1 min-w-0">
+                            {event.frame && (
+                                <button onClick={() => setFrame(event.frame!)} className="font-black mr-2 hover:underline" title="Show only this frame">
+                                    [{event.frame}]
+                                </button>
+                            )}
+                            {event.message}
+                            {event.call && <span className="opacity-50"> · {event.call.model}</span>}
+                            {event.durationMs !== undefined && <span className="opacity-50"> · {formatDuration(event.durationMs)}</span>}
+                            {event.error && <span className="block opacity-80">{event.error.message}</span>}
+                        </span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default EventLogConsole;
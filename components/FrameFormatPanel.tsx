@@ -0,0 +1,50 @@
+import React from 'react';
+import { FitMode, FrameFormat, SUPPORTED_ASPECT_RATIOS } from '../services/frameFormatService';
+import { AspectRatio } from '../services/providers';
+
+interface FrameFormatPanelProps {
+    format: FrameFormat;
+    onChange: (format: FrameFormat) => void;
+    disabled?: boolean;
+}
+
+const FIT_LABELS: Record<FitMode, string> = {
+    crop: 'CROP TO FILL',
+    letterbox: 'LETTERBOX',
+    stretch: 'SCALE (STRETCH)',
+};
+
+const FrameFormatPanel: React.FC<FrameFormatPanelProps> = ({ format, onChange, disabled }) => {
+    return (
+        <section className="bg-zinc-900/50 border border-red-900/40 p-5 rounded-sm shadow-xl">
+            <h2 className="text-xs font-black text-red-500 uppercase mb-4">FRAME_FORMAT</h2>
+            <div className="space-y-2 text-[10px] uppercase">
+                <label className="flex items-center justify-between gap-3">
+                    <span className="text-zinc-500 font-black">ASPECT RATIO</span>
+                    <select
+                        value={format.aspectRatio}
+                        disabled={disabled}
+                        onChange={e => onChange({ ...format, aspectRatio: e.target.value as FrameFormat['aspectRatio'] })}
+                        className="w-40 bg-black border border-red-900/40 text-zinc-300 px-2 py-1"
+                    >
+                        <option value="auto">AUTO (PER SOURCE)</option>
+                        {SUPPORTED_ASPECT_RATIOS.map((ratio: AspectRatio) => <option key={ratio} value={ratio}>{ratio}</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center justify-between gap-3">
+                    <span className="text-zinc-500 font-black">FIT TO SOURCE SIZE</span>
+                    <select
+                        value={format.fit}
+                        disabled={disabled}
+                        onChange={e => onChange({ ...format, fit: e.target.value as FitMode })}
+                        className="w-40 bg-black border border-red-900/40 text-zinc-300 px-2 py-1"
+                    >
+                        {(Object.keys(FIT_LABELS) as FitMode[]).map(fit => <option key={fit} value={fit}>{FIT_LABELS[fit]}</option>)}
+                    </select>
+                </label>
+            </div>
+        </section>
+    );
+};
+
+export default FrameFormatPanel;
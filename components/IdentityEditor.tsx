@@ -0,0 +1,146 @@
+import React, { useRef, useState } from 'react';
+import { IdentityAssignment, ScreenPosition, SourceImage } from '../types';
+import { formatPosition, isBox, NAMED_POSITIONS } from '../services/identityService';
+
+interface IdentityEditorProps {
+    /** The rough frame the boxes are drawn on. */
+    frame?: SourceImage;
+    identities: IdentityAssignment[];
+    avatars: Record<string, SourceImage>;
+    /** Names offered when adding someone to the frame. */
+    characters: string[];
+    /** Starting avatar for someone added by hand (the cast table's choice). */
+    avatarFor?: (characterName: string) => string | null;
+    onChange: (identities: IdentityAssignment[]) => void;
+    disabled?: boolean;
+}
+
+const BOX_COLOURS = ['border-red-500 text-red-400', 'border-sky-500 text-sky-400', 'border-amber-500 text-amber-400', 'border-green-500 text-green-400', 'border-fuchsia-500 text-fuchsia-400'];
+
+type Point = { x: number; y: number };
+
+const IdentityEditor: React.FC<IdentityEditorProps> = ({ frame, identities, avatars, characters, avatarFor, onChange, disabled }) => {
+    const [drawing, setDrawing] = useState<number | null>(null);
+    const [drag, setDrag] = useState<{ from: Point; to: Point } | null>(null);
+    const surfaceRef = useRef<HTMLDivElement>(null);
+    const avatarFiles = Object.keys(avatars).sort();
+    const absent = characters.filter(name => !identities.some(i => i.characterName === name));
+
+    const update = (index: number, patch: Partial<IdentityAssignment>) =>
+        onChange(identities.map((identity, i) => (i === index ? { ...identity, ...patch } : identity)));
+
+    const pointer = (e: React.PointerEvent): Point => {
+        const rect = surfaceRef.current!.getBoundingClientRect();
+        return {
+            x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+            y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+        };
+    };
+
+    const finishDrag = () => {
+        if (drawing !== null && drag) {
+            const box = {
+                x: Math.min(drag.from.x, drag.to.x),
+                y: Math.min(drag.from.y, drag.to.y),
+                width: Math.abs(drag.to.x - drag.from.x),
+                height: Math.abs(drag.to.y - drag.from.y),
+            };
+            // A click without a drag is not a box.
+            if (box.width > 0.02 && box.height > 0.02) update(drawing, { position: box });
+        }
+        setDrag(null);
+        setDrawing(null);
+    };
+
+    const setPosition = (index: number, value: string) => {
+        if (value === 'box') setDrawing(index);
+        else update(index, { position: value as ScreenPosition });
+    };
+
+    return (
+        <div className="space-y-2 text-[10px] uppercase">
+            {frame && (
+                <div
+                    ref={surfaceRef}
+                    className={`relative bg-black select-none ${drawing !== null ? 'cursor-crosshair ring-1 ring-amber-500' : ''}`}
+                    onPointerDown={e => drawing !== null && setDrag({ from: pointer(e), to: pointer(e) })}
+                    onPointerMove={e => drag && setDrag({ ...drag, to: pointer(e) })}
+                    onPointerUp={finishDrag}
+                    onPointerLeave={() => drag && finishDrag()}
+                >
+                    <img src={`data:${frame.mimeType};base64,${frame.base64}`} alt={frame.fileName} draggable={false} className="w-full h-auto block" />
+                    {identities.map((identity, i) => isBox(identity.position) && (
+                        <div
+                            key={i}
+                            className={`absolute border-2 pointer-events-none ${BOX_COLOURS[i % BOX_COLOURS.length]}`}
+                            style={{ left: `${identity.position.x * 100}%`, top: `${identity.position.y * 100}%`, width: `${identity.position.width * 100}%`, height: `${identity.position.height * 100}%` }}
+                        >
+                            <span className="bg-black/70 px-1 font-black">{identity.characterName}</span>
+                        </div>
+                    ))}
+                    {drag && (
+                        <div
+                            className="absolute border-2 border-dashed border-amber-400 pointer-events-none"
+                            style={{
+                                left: `${Math.min(drag.from.x, drag.to.x) * 100}%`,
+                                top: `${Math.min(drag.from.y, drag.to.y) * 100}%`,
+                                width: `${Math.abs(drag.to.x - drag.from.x) * 100}%`,
+                                height: `${Math.abs(drag.to.y - drag.from.y) * 100}%`,
+                            }}
+                        />
+                    )}
+                    {drawing !== null && !drag && (
+                        <p className="absolute top-1 left-1 bg-black/80 text-amber-400 font-black px-1">DRAG A BOX AROUND {identities[drawing]?.characterName}</p>
+                    )}
+                </div>
+            )}
+
+            {identities.map((identity, i) => (
+                <div key={`${identity.characterName}-${i}`} className="flex items-center gap-2">
+                    <span className={`w-28 truncate font-black ${BOX_COLOURS[i % BOX_COLOURS.length].split(' ')[1]}`} title={identity.characterName}>
+                        {i === 0 ? '★ ' : ''}{identity.characterName}
+                    </span>
+                    <select
+                        value={identity.avatarFilename || ''}
+                        disabled={disabled}
+                        onChange={e => update(i, { avatarFilename: e.target.value || null })}
+                        className="flex-1 min-w-0 bg-black border border-red-900/40 text-zinc-300 px-2 py-1 normal-case"
+                    >
+                        <option value="">— KEEP AS DRAWN —</option>
+                        {avatarFiles.map(file => <option key={file} value={file}>{file}</option>)}
+                    </select>
+                    <select
+                        value={isBox(identity.position) ? 'box' : identity.position}
+                        disabled={disabled}
+                        onChange={e => setPosition(i, e.target.value)}
+                        title={formatPosition(identity.position)}
+                        className="w-28 bg-black border border-red-900/40 text-zinc-300 px-2 py-1"
+                    >
+                        {NAMED_POSITIONS.map(p => <option key={p} value={p}>{p}</option>)}
+                        <option value="box" disabled={!frame}>{isBox(identity.position) ? 'BOX (REDRAW)' : 'DRAW BOX…'}</option>
+                    </select>
+                    {isBox(identity.position) && (
+                        <button onClick={() => setDrawing(i)} disabled={disabled || !frame} className="px-2 text-zinc-500 hover:text-amber-400" aria-label={`Redraw box for ${identity.characterName}`}>✎</button>
+                    )}
+                    {i > 0 && (
+                        <button onClick={() => onChange(identities.filter((_, j) => j !== i))} disabled={disabled} className="px-2 text-zinc-600 hover:text-red-500" aria-label={`Remove ${identity.characterName}`}>✕</button>
+                    )}
+                </div>
+            ))}
+
+            {absent.length > 0 && (
+                <select
+                    value=""
+                    disabled={disabled}
+                    onChange={e => e.target.value && onChange([...identities, { characterName: e.target.value, avatarFilename: avatarFor?.(e.target.value) ?? null, position: 'auto' }])}
+                    className="w-full bg-black border border-zinc-800 text-zinc-500 px-2 py-1"
+                >
+                    <option value="">+ ADD CHARACTER IN FRAME</option>
+                    {absent.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+            )}
+        </div>
+    );
+};
+
+export default IdentityEditor;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { DuplicateEntry } from '../services/ingestService';
+import { countIngestIssues, IngestReport } from '../services/sidecarService';
+import Button from './Button';
+
+interface IngestReportPanelProps {
+    report: IngestReport;
+    /** Entries with the same path in several archives or nested ZIPs; only the first copy was loaded. */
+    duplicates: DuplicateEntry[];
+    frameCount: number;
+    avatarCount: number;
+    onProceed: () => void;
+    onCancel: () => void;
+}
+
+const IssueList: React.FC<{ title: string; hint: string; items: React.ReactNode[] }> = ({ title, hint, items }) => (
+    <section className={`border p-4 space-y-2 ${items.length > 0 ? 'border-amber-700/60 bg-amber-950/10' : 'border-zinc-900'}`}>
+        <h3 className="text-[10px] font-black uppercase flex justify-between">
+            <span className={items.length > 0 ? 'text-amber-400' : 'text-zinc-600'}>{title}</span>
+            <span className={items.length > 0 ? 'text-amber-400' : 'text-green-600'}>{items.length > 0 ? items.length : 'OK'}</span>
+        </h3>
+        <p className="text-[9px] text-zinc-600 uppercase">{hint}</p>
+        {items.length > 0 && (
+            <ul className="max-h-48 overflow-y-auto space-y-1 text-[10px] text-zinc-400">
+                {items.map((item, i) => <li key={i} className="border-l-2 border-amber-800 pl-2">{item}</li>)}
+            </ul>
+        )}
+    </section>
+);
+
+const IngestReportPanel: React.FC<IngestReportPanelProps> = ({ report, duplicates, frameCount, avatarCount, onProceed, onCancel }) => {
+    const issues = countIngestIssues(report) + duplicates.length;
+    const paired = Object.keys(report.sidecars).length;
+
+    return (
+        <div className="fixed inset-0 bg-black/95 z-40 flex flex-col font-mono animate-fade-in" role="dialog" aria-modal="true" aria-labelledby="ingest-title">
+            <header className="shrink-0 px-6 py-3 border-b border-red-900/40 flex flex-wrap items-center gap-3">
+                <h2 id="ingest-title" className="text-sm font-black text-red-500 uppercase mr-auto">
+                    INGEST_REPORT — {frameCount} FRAMES / {paired} PAIRED / {avatarCount} AVATARS / {issues} ISSUES
+                </h2>
+                <button onClick={onCancel} className="px-3 py-1 text-[10px] font-black uppercase border border-zinc-700 text-zinc-400 hover:text-red-400">
+                    DISCARD ARCHIVES
+                </button>
+                <Button onClick={onProceed} disabled={paired === 0} className="px-4 py-1 text-xs font-black uppercase">
+                    {issues > 0 ? 'PROCEED ANYWAY' : 'PROCEED'}
+                </Button>
+            </header>
+
+            <div className="flex-1 overflow-y-auto p-6 grid grid-cols-1 lg:grid-cols-2 gap-4 content-start">
+                <IssueList
+                    title="FRAMES WITHOUT SIDECAR"
+                    hint="These frames will be skipped."
+                    items={report.framesWithoutSidecar}
+                />
+                <IssueList
+                    title="ORPHANED SIDECARS"
+                    hint="No frame has this basename; the text is ignored."
+                    items={report.orphanedSidecars}
+                />
+                <IssueList
+                    title="MALFORMED HEADERS"
+                    hint="Header lines must be KEY: value, followed by a --- line."
+                    items={report.malformed.map(m => <><span className="text-zinc-300">{m.fileName}</span> — {m.problems.join(' ')}</>)}
+                />
+                <IssueList
+                    title="DUPLICATE ENTRIES"
+                    hint="Same path in several archives or nested ZIPs; only the first copy was loaded."
+                    items={duplicates.map(d => <><span className="text-zinc-300">{d.name}</span> — KEPT {d.sources[0]}, IGNORED {d.sources.slice(1).join(', ')}</>)}
+                />
+                <IssueList
+                    title="DUPLICATE NAMES"
+                    hint="Same basename in several folders; these frames cannot be paired and will be skipped."
+                    items={[
+                        ...report.duplicateFrames.map(group => `FRAMES: ${group.join(', ')}`),
+                        ...report.duplicateSidecars.map(group => `SIDECARS: ${group.join(', ')}`),
+                    ]}
+                />
+            </div>
+        </div>
+    );
+};
+
+export default IngestReportPanel;
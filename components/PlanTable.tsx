@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { SourceImage } from '../types';
+import { identitiesOf } from '../services/identityService';
+import { countPlanned, FramePlan } from '../services/planService';
+import Button from './Button';
+import IdentityEditor from './IdentityEditor';
+
+interface PlanTableProps {
+    plans: FramePlan[];
+    sources: Record<string, SourceImage>;
+    avatars: Record<string, SourceImage>;
+    characters: string[];
+    avatarFor: (characterName: string) => string | null;
+    onChange: (plans: FramePlan[]) => void;
+    onExport: (format: 'csv' | 'json') => void;
+    onRebuildPrompts: () => void;
+    onBack: () => void;
+    onExecute: () => void;
+}
+
+const STATUS_STYLES: Record<FramePlan['status'], string> = {
+    PLANNED: 'text-green-500',
+    SKIPPED: 'text-zinc-500',
+    FAILED: 'text-red-500',
+};
+
+const PlanTable: React.FC<PlanTableProps> = ({ plans, sources, avatars, characters, avatarFor, onChange, onExport, onRebuildPrompts, onBack, onExecute }) => {
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const avatarFiles = Object.keys(avatars).sort();
+    const planned = countPlanned(plans);
+
+    const update = (originalName: string, patch: Partial<FramePlan>) =>
+        onChange(plans.map(p => (p.originalName === originalName ? { ...p, ...patch } : p)));
+
+    // The subject's avatar lives both on the plan and at the head of its identities.
+    const setSubjectAvatar = (plan: FramePlan, avatarFilename: string | null) => update(plan.originalName, {
+        avatarFilename,
+        avatarSource: 'manual',
+        identities: identitiesOf(plan).map((identity, i) => (i === 0 ? { ...identity, avatarFilename } : identity)),
+    });
+
+    return (
+        <div className="fixed inset-0 bg-black/95 z-40 flex flex-col font-mono animate-fade-in" role="dialog" aria-modal="true" aria-labelledby="plan-title">
+            <header className="shrink-0 px-6 py-3 border-b border-red-900/40 flex flex-wrap items-center gap-3">
+                <h2 id="plan-title" className="text-sm font-black text-red-500 uppercase mr-auto">
+                    PRODUCTION_PLAN — {planned} PLANNED / {plans.filter(p => p.status === 'FAILED').length} FAILED / {plans.filter(p => p.status === 'SKIPPED').length} SKIPPED
+                </h2>
+                <button onClick={onBack} className="px-3 py-1 text-[10px] font-black uppercase border border-zinc-700 text-zinc-400 hover:text-red-400">
+                    BACK TO CAST
+                </button>
+                <button onClick={onRebuildPrompts} className="px-3 py-1 text-[10px] font-black uppercase border border-zinc-700 text-zinc-400 hover:text-red-400">
+                    REBUILD PROMPTS
+                </button>
+                <button onClick={() => onExport('csv')} className="px-3 py-1 text-[10px] font-black uppercase border border-zinc-700 text-zinc-400 hover:text-red-400">
+                    EXPORT CSV
+                </button>
+                <button onClick={() => onExport('json')} className="px-3 py-1 text-[10px] font-black uppercase border border-zinc-700 text-zinc-400 hover:text-red-400">
+                    EXPORT JSON
+                </button>
+                <Button onClick={onExecute} disabled={planned === 0} className="px-4 py-1 text-xs font-black uppercase">EXECUTE PLAN ({planned})</Button>
+            </header>
+
+            <div className="flex-1 overflow-y-auto p-6 space-y-2">
+                <p className="text-[9px] text-zinc-600 uppercase">
+                    NO IMAGES HAVE BEEN GENERATED. EDIT AVATARS AND PROMPTS HERE; EXECUTING RUNS IMAGE GENERATION ONLY, FOR PLANNED FRAMES.
+                </p>
+                {plans.map(plan => {
+                    const source = sources[plan.originalName];
+                    const editable = plan.status === 'PLANNED';
+                    const identities = identitiesOf(plan);
+                    return (
+                        <div key={plan.originalName} className="grid grid-cols-12 gap-3 text-[10px] uppercase bg-zinc-950 border border-zinc-900 p-2">
+                            <div className="col-span-1 aspect-video bg-black border border-red-900/30">
+                                {source && <img src={`data:${source.mimeType};base64,${source.base64}`} alt={plan.originalName} className="w-full h-full object-cover" />}
+                            </div>
+                            <div className="col-span-3 space-y-1 min-w-0">
+                                <p className="text-zinc-300 truncate normal-case" title={plan.originalName}>{plan.originalName}</p>
+                                <p className={`font-black ${STATUS_STYLES[plan.status]}`}>{plan.status}{plan.error ? ` — ${plan.error}` : ''}</p>
+                                <p className="text-red-400 font-black truncate">{plan.characterName}</p>
+                                <p className="text-zinc-600 truncate">WITH: {plan.otherCharacters.join(', ') || 'NONE'}</p>
+                            </div>
+                            <div className="col-span-2 space-y-1">
+                                <select
+                                    value={plan.avatarFilename || ''}
+                                    disabled={!editable}
+                                    onChange={e => setSubjectAvatar(plan, e.target.value || null)}
+                                    className="w-full bg-black border border-red-900/40 text-zinc-300 px-2 py-1 normal-case"
+                                >
+                                    <option value="">— NO AVATAR —</option>
+                                    {avatarFiles.map(file => <option key={file} value={file}>{file}</option>)}
+                                </select>
+                                <p className="text-zinc-600">SOURCE: {plan.avatarSource}</p>
+                                {editable && (
+                                    <button
+                                        onClick={() => setExpanded(expanded === plan.originalName ? null : plan.originalName)}
+                                        className="font-black text-zinc-500 hover:text-red-400"
+                                    >
+                                        {expanded === plan.originalName ? '▾' : '▸'} IDENTITIES ({identities.filter(i => i.avatarFilename).length}/{identities.length})
+                                    </button>
+                                )}
+                            </div>
+                            <textarea
+                                value={plan.prompt}
+                                disabled={!editable}
+                                onChange={e => update(plan.originalName, { prompt: e.target.value })}
+                                rows={4}
+                                className="col-span-6 bg-black border border-red-900/40 text-zinc-300 px-2 py-1 normal-case resize-y"
+                            />
+                            {expanded === plan.originalName && (
+                                <div className="col-span-12 lg:col-start-2 lg:col-span-6">
+                                    <IdentityEditor
+                                        frame={source}
+                                        identities={identities}
+                                        avatars={avatars}
+                                        characters={characters}
+                                        avatarFor={avatarFor}
+                                        onChange={next => update(plan.originalName, {
+                                            identities: next,
+                                            avatarFilename: next[0]?.avatarFilename ?? null,
+                                            ...(next[0]?.avatarFilename !== plan.avatarFilename ? { avatarSource: 'manual' as const } : {}),
+                                        })}
+                                    />
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default PlanTable;
@@ -1,12 +1,10 @@
 
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { GeneratedAudio, Script, SceneElement } from '../types';
+import { GeneratedAudio, GeneratedImage, Script } from '../types';
+import { buildStoryboard, captionFor, IMAGE_SLIDE_SECONDS, MUSIC_VOLUME, StoryboardItem } from '../services/timelineService';
 import Button from './Button';
 
-// A generic "GeneratedImage" type for use within this component
-type GeneratedImage = { sceneIndex: number; imageUrl: string };
-
 const PlayIcon: React.FC = () => (
     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M5.25 5.653c0-.856.917-1.398 1.667-.986l11.54 6.347a1.125 1.125 0 0 1 0 1.972l-11.54 6.347a1.125 1.125 0 0 1-1.667-.986V5.653Z" /></svg>
 );
@@ -23,10 +21,6 @@ const CloseIcon: React.FC = () => (
     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" /></svg>
 );
 
-type StoryboardItem = (GeneratedImage | GeneratedAudio) & {
-    sceneElement?: SceneElement;
-};
-
 interface PresentationPlayerProps {
     initialItems: (GeneratedImage | GeneratedAudio)[];
     script: Script;
@@ -35,14 +29,7 @@ interface PresentationPlayerProps {
 }
 
 const PresentationPlayer: React.FC<PresentationPlayerProps> = ({ initialItems, script, backgroundMusic, onClose }) => {
-    const storyboardItems: StoryboardItem[] = useMemo(() => {
-        return initialItems
-            .map(item => ({
-                ...item,
-                sceneElement: script.scene_elements[item.sceneIndex],
-            }))
-            .sort((a, b) => a.sceneIndex - b.sceneIndex);
-    }, [initialItems, script]);
+    const storyboardItems: StoryboardItem[] = useMemo(() => buildStoryboard(initialItems, script), [initialItems, script]);
 
     const [currentIndex, setCurrentIndex] = useState(0);
     const [currentImage, setCurrentImage] = useState<string | null>(null);
@@ -68,7 +55,7 @@ const PresentationPlayer: React.FC<PresentationPlayerProps> = ({ initialItems, s
                 if (musicPlayer.src !== backgroundMusic[currentMusicIndex]) {
                     musicPlayer.src = backgroundMusic[currentMusicIndex];
                 }
-                musicPlayer.volume = 0.15; // Quiet background music
+                musicPlayer.volume = MUSIC_VOLUME; // Quiet background music
                 musicPlayer.play().catch(e => console.error("Background music playback failed:", e));
             } else {
                 musicPlayer.pause();
@@ -100,7 +87,7 @@ const PresentationPlayer: React.FC<PresentationPlayerProps> = ({ initialItems, s
         } else {
             imageTimeoutRef.current = window.setTimeout(() => {
                 goToNext();
-            }, 4000); // 4-second delay for image-only slides
+            }, IMAGE_SLIDE_SECONDS * 1000); // Image slides hold for a fixed time; audio runs to its end.
         }
 
         return () => {
@@ -143,16 +130,7 @@ const PresentationPlayer: React.FC<PresentationPlayerProps> = ({ initialItems, s
     };
     
     const currentItem = storyboardItems[currentIndex];
-    let displayText = '', characterText = '';
-    if (currentItem?.sceneElement) {
-        if (currentItem.sceneElement.type === 'action') {
-            displayText = currentItem.sceneElement.content || ''
-        }
-        else if (currentItem.sceneElement.type === 'dialogue_block') {
-            characterText = currentItem.sceneElement.character.toUpperCase();
-            displayText = currentItem.sceneElement.elements.find(e => e.type === 'dialogue')?.content || '';
-        }
-    }
+    const { character: characterText, text: displayText } = captionFor(currentItem?.sceneElement);
 
     return (
         <div className="fixed inset-0 bg-black/90 backdrop-blur-lg flex flex-col items-center justify-center z-50 animate-fade-in p-4" role="dialog" aria-modal="true" aria-labelledby="player-title">
@@ -0,0 +1,50 @@
+import React from 'react';
+import { MODEL_STAGES, PROVIDER_FACTORIES, ProviderId, ProviderSettings } from '../services/providers';
+
+interface ProviderSettingsPanelProps {
+    settings: ProviderSettings;
+    onChange: (settings: ProviderSettings) => void;
+    disabled?: boolean;
+}
+
+const PROVIDER_LABELS: Record<ProviderId, string> = {
+    gemini: 'GOOGLE GEMINI',
+    mock: 'OFFLINE MOCK (NO KEY)',
+};
+
+const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange, disabled }) => {
+    return (
+        <section className="bg-zinc-900/50 border border-red-900/40 p-5 rounded-sm shadow-xl">
+            <h2 className="text-xs font-black text-red-500 uppercase mb-4">MODEL_ROUTING</h2>
+            <div className="space-y-2 text-[10px] uppercase">
+                <label className="flex items-center justify-between gap-3">
+                    <span className="text-zinc-500 font-black">PROVIDER</span>
+                    <select
+                        value={settings.providerId}
+                        disabled={disabled}
+                        onChange={e => onChange({ ...settings, providerId: e.target.value as ProviderId })}
+                        className="flex-1 bg-black border border-red-900/40 text-red-400 px-2 py-1"
+                    >
+                        {(Object.keys(PROVIDER_FACTORIES) as ProviderId[]).map(id => (
+                            <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+                        ))}
+                    </select>
+                </label>
+                {MODEL_STAGES.map(stage => (
+                    <label key={stage} className="flex items-center justify-between gap-3">
+                        <span className="text-zinc-500 font-black w-16">{stage}</span>
+                        <input
+                            type="text"
+                            value={settings.models[stage]}
+                            disabled={disabled}
+                            onChange={e => onChange({ ...settings, models: { ...settings.models, [stage]: e.target.value } })}
+                            className="flex-1 bg-black border border-red-900/40 text-zinc-300 px-2 py-1 normal-case"
+                        />
+                    </label>
+                ))}
+            </div>
+        </section>
+    );
+};
+
+export default ProviderSettingsPanel;
@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { IdentityAssignment, RejuvenatedItem, ReviewDecision, SourceImage } from '../types';
+import { identitiesOf } from '../services/identityService';
+import { compareFrameNames } from '../services/sidecarService';
+import Button from './Button';
+import IdentityEditor from './IdentityEditor';
+
+const PAGE_SIZE = 8;
+
+type Filter = 'ALL' | ReviewDecision | 'FAILED' | 'FLAGGED';
+
+export interface RegenerateOptions {
+    prompt: string;
+    /** Everyone to replace, subject first. */
+    identities: IdentityAssignment[];
+}
+
+interface ReviewGalleryProps {
+    items: RejuvenatedItem[];
+    sources: Record<string, SourceImage>;
+    avatars: Record<string, SourceImage>;
+    regenerating: Set<string>;
+    /** Cast names that can be added to a frame, and their default avatars. */
+    characters: string[];
+    avatarFor: (characterName: string) => string | null;
+    onDecide: (originalName: string, decision: ReviewDecision) => void;
+    onRegenerate: (originalName: string, options: RegenerateOptions) => void;
+    onClose: () => void;
+}
+
+const dataUrl = (image: { base64: string; mimeType?: string }) => `data:${image.mimeType || 'image/png'};base64,${image.base64}`;
+
+const DECISION_STYLES: Record<ReviewDecision, string> = {
+    PENDING: 'border-zinc-800',
+    ACCEPTED: 'border-green-600',
+    REJECTED: 'border-red-700 opacity-60',
+};
+
+interface ReviewCardProps {
+    item: RejuvenatedItem;
+    source?: SourceImage;
+    avatars: Record<string, SourceImage>;
+    isRegenerating: boolean;
+    characters: string[];
+    avatarFor: ReviewGalleryProps['avatarFor'];
+    onDecide: ReviewGalleryProps['onDecide'];
+    onRegenerate: ReviewGalleryProps['onRegenerate'];
+}
+
+const ReviewCard: React.FC<ReviewCardProps> = ({ item, source, avatars, isRegenerating, characters, avatarFor, onDecide, onRegenerate }) => {
+    const [prompt, setPrompt] = useState(item.prompt);
+    const [identities, setIdentities] = useState(() => identitiesOf(item));
+    const [showIdentities, setShowIdentities] = useState(false);
+    const decision = item.review || 'PENDING';
+    const avatarFilename = identities[0]?.avatarFilename || null;
+    const avatar = avatarFilename ? avatars[avatarFilename] : null;
+
+    // A regeneration replaces the prompt and identities under us; pick up the new values.
+    useEffect(() => {
+        setPrompt(item.prompt);
+        setIdentities(identitiesOf(item));
+    }, [item.prompt, item.avatarFilename, item.identities]);
+
+    const isEdited = prompt !== item.prompt || JSON.stringify(identities) !== JSON.stringify(identitiesOf(item));
+    const setSubjectAvatar = (file: string | null) => setIdentities(identities.map((identity, i) => (i === 0 ? { ...identity, avatarFilename: file } : identity)));
+
+    return (
+        <div className={`bg-zinc-950 border-2 ${DECISION_STYLES[decision]} p-3 space-y-3`}>
+            <div className="flex justify-between items-center text-[10px] font-black uppercase">
+                <span className="text-zinc-400 truncate">{item.originalName}</span>
+                <span className={item.status === 'DONE' ? 'text-zinc-500' : 'text-red-500'}>{item.status} / {decision}</span>
+            </div>
+            {item.consistency && item.consistency.score !== null && (
+                <p
+                    className={`text-[9px] font-black uppercase ${item.consistency.flagged ? 'text-amber-400' : 'text-zinc-600'}`}
+                    title={item.consistency.notes}
+                >
+                    {item.consistency.flagged ? 'FLAGGED — ' : ''}CONSISTENCY {item.consistency.score.toFixed(2)}
+                    {' '}(ID {item.consistency.identity?.toFixed(2) ?? 'N/A'} / STYLE {item.consistency.style?.toFixed(2) ?? 'N/A'}, {item.consistency.attempts}×)
+                </p>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+                <figure className="aspect-video bg-black flex items-center justify-center">
+                    {source ? <img src={dataUrl(source)} alt="Source frame" className="max-w-full max-h-full object-contain" /> : <span className="text-zinc-700 text-[10px]">NO SOURCE</span>}
+                </figure>
+                <figure className="aspect-video bg-black flex items-center justify-center">
+                    {item.base64 ? <img src={dataUrl({ base64: item.base64 })} alt="Rejuvenated frame" className="max-w-full max-h-full object-contain" /> : <span className="text-red-700 text-[10px] px-2 text-center">{item.error || 'NO OUTPUT'}</span>}
+                </figure>
+            </div>
+
+            <div className="flex items-center gap-3 text-[10px] uppercase">
+                {avatar && <img src={dataUrl(avatar)} alt="Avatar" className="w-10 h-10 object-cover border border-red-900/40" />}
+                <div className="flex-1 space-y-1">
+                    <p className="text-zinc-500 font-black">CHARACTER: <span className="text-red-400">{item.characterName}</span></p>
+                    <select
+                        value={avatarFilename || ''}
+                        onChange={e => setSubjectAvatar(e.target.value || null)}
+                        className="w-full bg-black border border-red-900/40 text-zinc-300 px-2 py-1 normal-case"
+                    >
+                        <option value="">(NO AVATAR — RE-RENDER ONLY)</option>
+                        {Object.keys(avatars).sort().map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                <button onClick={() => setShowIdentities(!showIdentities)} className="text-[10px] font-black uppercase text-zinc-500 hover:text-red-400">
+                    {showIdentities ? '▾' : '▸'} IDENTITIES ({identities.filter(i => i.avatarFilename).length}/{identities.length} REPLACED)
+                </button>
+                {showIdentities && (
+                    <IdentityEditor
+                        frame={source}
+                        identities={identities}
+                        avatars={avatars}
+                        characters={characters}
+                        avatarFor={avatarFor}
+                        onChange={setIdentities}
+                        disabled={isRegenerating}
+                    />
+                )}
+            </div>
+
+            <textarea
+                value={prompt}
+                onChange={e => setPrompt(e.target.value)}
+                rows={4}
+                className="w-full bg-black border border-red-900/40 text-zinc-300 text-[10px] p-2 font-mono"
+            />
+
+            <div className="flex gap-2">
+                <Button onClick={() => onDecide(item.originalName, 'ACCEPTED')} disabled={!item.base64 || isRegenerating} className="flex-1 px-2 py-1 text-xs bg-green-800 hover:bg-green-700">ACCEPT</Button>
+                <Button onClick={() => onDecide(item.originalName, 'REJECTED')} disabled={isRegenerating} className="flex-1 px-2 py-1 text-xs bg-zinc-800 hover:bg-zinc-700">REJECT</Button>
+                <Button
+                    onClick={() => onRegenerate(item.originalName, { prompt, identities })}
+                    isLoading={isRegenerating}
+                    disabled={!prompt.trim()}
+                    className="flex-1 px-2 py-1 text-xs"
+                >
+                    {isEdited ? 'REGENERATE (EDITED)' : 'REGENERATE'}
+                </Button>
+            </div>
+        </div>
+    );
+};
+
+const ReviewGallery: React.FC<ReviewGalleryProps> = ({ items, sources, avatars, regenerating, characters, avatarFor, onDecide, onRegenerate, onClose }) => {
+    const [filter, setFilter] = useState<Filter>('ALL');
+    const [page, setPage] = useState(0);
+
+    const sorted = useMemo(() => [...items].sort((a, b) => compareFrameNames(a.originalName, b.originalName)), [items]);
+    const visible = useMemo(() => sorted.filter(item => {
+        if (filter === 'ALL') return true;
+        if (filter === 'FAILED') return item.status !== 'DONE';
+        if (filter === 'FLAGGED') return !!item.consistency?.flagged;
+        return (item.review || 'PENDING') === filter;
+    }), [sorted, filter]);
+
+    const pageCount = Math.max(1, Math.ceil(visible.length / PAGE_SIZE));
+    const currentPage = Math.min(page, pageCount - 1);
+    const counts = useMemo(() => ({
+        ACCEPTED: items.filter(i => i.review === 'ACCEPTED').length,
+        REJECTED: items.filter(i => i.review === 'REJECTED').length,
+    }), [items]);
+
+    return (
+        <div className="fixed inset-0 bg-black/95 z-40 flex flex-col font-mono animate-fade-in" role="dialog" aria-modal="true" aria-labelledby="review-title">
+            <header className="shrink-0 px-6 py-3 border-b border-red-900/40 flex flex-wrap items-center gap-3">
+                <h2 id="review-title" className="text-sm font-black text-red-500 uppercase mr-auto">
+                    REVIEW_MODE — {counts.ACCEPTED} ACCEPTED / {counts.REJECTED} REJECTED / {items.length} TOTAL
+                </h2>
+                {(['ALL', 'PENDING', 'ACCEPTED', 'REJECTED', 'FAILED', 'FLAGGED'] as Filter[]).map(f => (
+                    <button
+                        key={f}
+                        onClick={() => { setFilter(f); setPage(0); }}
+                        className={`px-3 py-1 text-[10px] font-black uppercase border ${filter === f ? 'border-red-500 text-red-400' : 'border-zinc-800 text-zinc-600'}`}
+                    >
+                        {f}
+                    </button>
+                ))}
+                <button onClick={onClose} className="px-3 py-1 text-[10px] font-black uppercase bg-red-700 hover:bg-red-600">CLOSE</button>
+            </header>
+
+            <div className="flex-1 overflow-y-auto p-6 grid grid-cols-1 xl:grid-cols-2 gap-4 content-start">
+                {visible.length === 0 && <p className="text-zinc-700 italic uppercase text-xs">No frames match this filter.</p>}
+                {visible.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE).map(item => (
+                    <ReviewCard
+                        key={item.originalName}
+                        item={item}
+                        source={sources[item.originalName]}
+                        avatars={avatars}
+                        isRegenerating={regenerating.has(item.originalName)}
+                        characters={characters}
+                        avatarFor={avatarFor}
+                        onDecide={onDecide}
+                        onRegenerate={onRegenerate}
+                    />
+                ))}
+            </div>
+
+            <footer className="shrink-0 px-6 py-2 border-t border-red-900/40 flex justify-center items-center gap-4 text-[10px] font-black uppercase">
+                <button onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0} className="text-red-500 disabled:text-zinc-800">PREV</button>
+                <span className="text-zinc-500">PAGE {currentPage + 1} / {pageCount}</span>
+                <button onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1} className="text-red-500 disabled:text-zinc-800">NEXT</button>
+            </footer>
+        </div>
+    );
+};
+
+export default ReviewGallery;
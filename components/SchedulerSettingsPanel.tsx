@@ -0,0 +1,41 @@
+import React from 'react';
+import { SchedulerSettings } from '../services/scheduler';
+
+interface SchedulerSettingsPanelProps {
+    settings: SchedulerSettings;
+    onChange: (settings: SchedulerSettings) => void;
+    disabled?: boolean;
+}
+
+const FIELDS: { key: keyof SchedulerSettings; label: string; min: number }[] = [
+    { key: 'concurrency', label: 'PARALLEL FRAMES', min: 1 },
+    { key: 'requestsPerMinute', label: 'REQUESTS / MIN (0 = OFF)', min: 0 },
+    { key: 'maxRetries', label: 'MAX RETRIES', min: 0 },
+    { key: 'baseDelayMs', label: 'BACKOFF BASE (MS)', min: 0 },
+    { key: 'maxDelayMs', label: 'BACKOFF CAP (MS)', min: 0 },
+];
+
+const SchedulerSettingsPanel: React.FC<SchedulerSettingsPanelProps> = ({ settings, onChange, disabled }) => {
+    return (
+        <section className="bg-zinc-900/50 border border-red-900/40 p-5 rounded-sm shadow-xl">
+            <h2 className="text-xs font-black text-red-500 uppercase mb-4">THROTTLE</h2>
+            <div className="space-y-2 text-[10px] uppercase">
+                {FIELDS.map(({ key, label, min }) => (
+                    <label key={key} className="flex items-center justify-between gap-3">
+                        <span className="text-zinc-500 font-black">{label}</span>
+                        <input
+                            type="number"
+                            min={min}
+                            value={settings[key]}
+                            disabled={disabled}
+                            onChange={e => onChange({ ...settings, [key]: Math.max(min, Number(e.target.value) || 0) })}
+                            className="w-24 bg-black border border-red-900/40 text-zinc-300 px-2 py-1 text-right"
+                        />
+                    </label>
+                ))}
+            </div>
+        </section>
+    );
+};
+
+export default SchedulerSettingsPanel;
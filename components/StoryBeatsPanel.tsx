@@ -0,0 +1,87 @@
+import React from 'react';
+import { resolveFrameBeats, StoryStructure } from '../services/storyService';
+
+interface StoryBeatsPanelProps {
+    story: StoryStructure;
+    /** Frames in order. */
+    frames: string[];
+    /** Automatic beat per frame. */
+    aligned: Record<string, string>;
+    /** Beats set by hand, by frame. */
+    overrides: Record<string, string>;
+    onChange: (overrides: Record<string, string>) => void;
+    disabled?: boolean;
+}
+
+const StoryBeatsPanel: React.FC<StoryBeatsPanelProps> = ({ story, frames, aligned, overrides, onChange, disabled }) => {
+    const beats = resolveFrameBeats(aligned, overrides, story);
+    const framesOf = (id: string) => frames.filter(frame => beats[frame] === id);
+
+    // Picking the automatic beat again drops the correction rather than pinning it.
+    const assign = (frame: string, id: string) => {
+        const { [frame]: _, ...rest } = overrides;
+        onChange(id === aligned[frame] ? rest : { ...rest, [frame]: id });
+    };
+
+    return (
+        <section className="bg-zinc-900/50 border border-red-900/40 p-5 rounded-sm shadow-xl">
+            <h2 className="text-xs font-black text-red-500 uppercase mb-4">STORY_BEATS</h2>
+            <div className="space-y-3 text-[10px] uppercase">
+                {story.acts.map((act, actIndex) => (
+                    <div key={actIndex}>
+                        <p className="text-zinc-500 font-black">ACT {actIndex + 1}{act.title && `: ${act.title}`}</p>
+                        <ul className="mt-1 space-y-1">
+                            {act.beats.map(beat => {
+                                const count = framesOf(beat.id).length;
+                                return (
+                                    <li key={beat.id} className="flex gap-2 normal-case" title={beat.text}>
+                                        <span className="text-red-400 font-black shrink-0">{beat.id}</span>
+                                        <span className="flex-1 min-w-0 truncate text-zinc-300">{beat.text}</span>
+                                        <span className={`shrink-0 uppercase ${beat.toneDeclared ? 'text-zinc-400' : 'text-zinc-600'}`}>{beat.tone}</span>
+                                        <span className={`shrink-0 w-6 text-right ${count ? 'text-zinc-400' : 'text-zinc-700'}`}>{count}</span>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </div>
+                ))}
+
+                {frames.length > 0 && (
+                    <div className="border-t border-zinc-800 pt-3">
+                        <div className="flex justify-between items-center mb-2">
+                            <span className="text-zinc-500 font-black">FRAME ALIGNMENT</span>
+                            {Object.keys(overrides).length > 0 && (
+                                <button
+                                    onClick={() => onChange({})}
+                                    disabled={disabled}
+                                    className="px-2 py-0.5 font-black border border-zinc-700 text-zinc-400 hover:text-red-400 disabled:opacity-40"
+                                >
+                                    RESET ALL
+                                </button>
+                            )}
+                        </div>
+                        <ul className="max-h-48 overflow-y-auto space-y-1 pr-1">
+                            {frames.map(frame => (
+                                <li key={frame} className="flex items-center gap-2">
+                                    <span className="flex-1 min-w-0 truncate normal-case text-zinc-400">{frame}</span>
+                                    {frame in overrides && <span className="text-red-500 font-black">MANUAL</span>}
+                                    <select
+                                        value={beats[frame] || ''}
+                                        disabled={disabled}
+                                        onChange={e => assign(frame, e.target.value)}
+                                        className="w-20 bg-black border border-red-900/40 text-zinc-300 px-1 py-0.5"
+                                        aria-label={`Story beat for ${frame}`}
+                                    >
+                                        {story.beats.map(beat => <option key={beat.id} value={beat.id}>{beat.id}</option>)}
+                                    </select>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </div>
+        </section>
+    );
+};
+
+export default StoryBeatsPanel;
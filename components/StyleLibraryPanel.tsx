@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { presetId, StyleLibrary, StylePreset, StyleRule } from '../services/styleService';
+
+interface StyleLibraryPanelProps {
+    baseStyle: string;
+    onBaseStyleChange: (style: string) => void;
+    library: StyleLibrary;
+    onChange: (library: StyleLibrary) => void;
+    /** Every frame name in frame order, offered as range ends. */
+    frames: string[];
+    /** Tags found in the sidecars. */
+    tags: string[];
+    /** Frames per preset name; '' counts frames on the base style. */
+    counts: Record<string, number>;
+    disabled?: boolean;
+}
+
+const StyleLibraryPanel: React.FC<StyleLibraryPanelProps> = ({ baseStyle, onBaseStyleChange, library, onChange, frames, tags, counts, disabled }) => {
+    const [newPreset, setNewPreset] = useState('');
+
+    const updatePreset = (id: string, patch: Partial<StylePreset>) =>
+        onChange({ ...library, presets: library.presets.map(p => (p.id === id ? { ...p, ...patch } : p)) });
+
+    // Rules for a deleted preset go with it.
+    const removePreset = (id: string) =>
+        onChange({ presets: library.presets.filter(p => p.id !== id), rules: library.rules.filter(r => r.presetId !== id) });
+
+    const addPreset = () => {
+        const name = newPreset.trim();
+        if (!name) return;
+        onChange({ ...library, presets: [...library.presets, { id: presetId(name, library), name, style: '' }] });
+        setNewPreset('');
+    };
+
+    const updateRule = (index: number, rule: StyleRule) =>
+        onChange({ ...library, rules: library.rules.map((r, i) => (i === index ? rule : r)) });
+
+    const addRule = (kind: StyleRule['kind']) => {
+        const presetId = library.presets[0]?.id;
+        if (!presetId) return;
+        const rule: StyleRule = kind === 'tag'
+            ? { kind, presetId, tag: tags[0] || '' }
+            : { kind, presetId, from: frames[0] || '', to: frames[frames.length - 1] || '' };
+        onChange({ ...library, rules: [...library.rules, rule] });
+    };
+
+    const inputClass = 'bg-black border border-red-900/40 text-zinc-300 px-2 py-1 normal-case';
+
+    return (
+        <section className="bg-zinc-900/50 border border-red-900/40 p-5 rounded-sm shadow-xl">
+            <h2 className="text-xs font-black text-red-500 uppercase mb-4">STYLE_LIBRARY</h2>
+            <div className="space-y-2 text-[10px] uppercase">
+                <label className="block space-y-1">
+                    <span className="text-zinc-500 font-black">BASE STYLE ({counts[''] || 0} FRAMES)</span>
+                    <textarea
+                        value={baseStyle}
+                        disabled={disabled}
+                        onChange={e => onBaseStyleChange(e.target.value)}
+                        rows={2}
+                        className={`w-full resize-y ${inputClass}`}
+                    />
+                </label>
+
+                <p className="text-zinc-600 font-black pt-2">PRESETS</p>
+                {library.presets.map(preset => (
+                    <div key={preset.id} className="space-y-1 border-l-2 border-zinc-800 pl-2">
+                        <div className="flex items-center gap-2">
+                            <input
+                                value={preset.name}
+                                disabled={disabled}
+                                onChange={e => updatePreset(preset.id, { name: e.target.value })}
+                                className={`flex-1 min-w-0 font-black ${inputClass}`}
+                            />
+                            <span className="text-zinc-600 shrink-0">{counts[preset.name] || 0} FRAMES</span>
+                            <button onClick={() => removePreset(preset.id)} disabled={disabled} className="px-2 text-zinc-600 hover:text-red-500" aria-label={`Remove ${preset.name}`}>✕</button>
+                        </div>
+                        <textarea
+                            value={preset.style}
+                            disabled={disabled}
+                            onChange={e => updatePreset(preset.id, { style: e.target.value })}
+                            rows={2}
+                            placeholder="STYLE DESCRIPTION"
+                            className={`w-full resize-y ${inputClass}`}
+                        />
+                    </div>
+                ))}
+                <div className="flex gap-2">
+                    <input
+                        value={newPreset}
+                        disabled={disabled}
+                        onChange={e => setNewPreset(e.target.value)}
+                        onKeyDown={e => e.key === 'Enter' && addPreset()}
+                        placeholder="NEW PRESET NAME"
+                        className={`flex-1 min-w-0 ${inputClass}`}
+                    />
+                    <button onClick={addPreset} disabled={disabled || !newPreset.trim()} className="px-3 py-1 font-black border border-zinc-700 text-zinc-400 hover:text-red-400 disabled:text-zinc-700">ADD</button>
+                </div>
+
+                <p className="text-zinc-600 font-black pt-2">ASSIGNMENTS (TAGS BEAT RANGES; LATER RULES WIN)</p>
+                {library.rules.map((rule, i) => (
+                    <div key={i} className="flex items-center gap-1">
+                        {rule.kind === 'tag' ? (
+                            <>
+                                <span className="text-zinc-500 font-black w-10 shrink-0">TAG</span>
+                                <input
+                                    value={rule.tag}
+                                    disabled={disabled}
+                                    list="style-tags"
+                                    onChange={e => updateRule(i, { ...rule, tag: e.target.value.toLowerCase() })}
+                                    className={`flex-1 min-w-0 ${inputClass}`}
+                                />
+                            </>
+                        ) : (
+                            <>
+                                <span className="text-zinc-500 font-black w-10 shrink-0">FRAMES</span>
+                                {(['from', 'to'] as const).map(end => (
+                                    <select
+                                        key={end}
+                                        value={rule[end]}
+                                        disabled={disabled}
+                                        onChange={e => updateRule(i, { ...rule, [end]: e.target.value })}
+                                        className={`flex-1 min-w-0 ${inputClass}`}
+                                    >
+                                        {!frames.includes(rule[end]) && <option value={rule[end]}>{rule[end] || '—'} (MISSING)</option>}
+                                        {frames.map(frame => <option key={frame} value={frame}>{frame}</option>)}
+                                    </select>
+                                ))}
+                            </>
+                        )}
+                        <span className="text-zinc-600">→</span>
+                        <select
+                            value={rule.presetId}
+                            disabled={disabled}
+                            onChange={e => updateRule(i, { ...rule, presetId: e.target.value })}
+                            className={`w-28 ${inputClass}`}
+                        >
+                            {library.presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                        </select>
+                        <button
+                            onClick={() => onChange({ ...library, rules: library.rules.filter((_, j) => j !== i) })}
+                            disabled={disabled}
+                            className="px-2 text-zinc-600 hover:text-red-500"
+                            aria-label="Remove assignment"
+                        >
+                            ✕
+                        </button>
+                    </div>
+                ))}
+                <datalist id="style-tags">
+                    {tags.map(tag => <option key={tag} value={tag} />)}
+                </datalist>
+                <div className="flex gap-2">
+                    <button onClick={() => addRule('range')} disabled={disabled || library.presets.length === 0 || frames.length === 0} className="flex-1 px-3 py-1 font-black border border-zinc-700 text-zinc-400 hover:text-red-400 disabled:text-zinc-700">
+                        + FRAME RANGE
+                    </button>
+                    <button onClick={() => addRule('tag')} disabled={disabled || library.presets.length === 0} className="flex-1 px-3 py-1 font-black border border-zinc-700 text-zinc-400 hover:text-red-400 disabled:text-zinc-700">
+                        + SCENE TAG
+                    </button>
+                </div>
+            </div>
+        </section>
+    );
+};
+
+export default StyleLibraryPanel;
@@ -0,0 +1,76 @@
+/**
+ * Small WAV helpers shared by the voice stage and the offline mock. TTS
+ * backends often return bare PCM, which browsers cannot play or decode until
+ * it is wrapped in a RIFF header.
+ */
+
+export const PLACEHOLDER_SAMPLE_RATE = 8000;
+
+export function base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+/** Mono 16-bit little-endian PCM → WAV file bytes. */
+export function encodeWav(pcm: Uint8Array, sampleRate: number): Uint8Array {
+    const out = new Uint8Array(44 + pcm.length);
+    const view = new DataView(out.buffer);
+    const ascii = (offset: number, text: string) => {
+        for (let i = 0; i < text.length; i++) out[offset + i] = text.charCodeAt(i);
+    };
+    ascii(0, 'RIFF');
+    view.setUint32(4, 36 + pcm.length, true);
+    ascii(8, 'WAVE');
+    ascii(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);              // PCM
+    view.setUint16(22, 1, true);              // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true); // byte rate
+    view.setUint16(32, 2, true);              // block align
+    view.setUint16(34, 16, true);
+    ascii(36, 'data');
+    view.setUint32(40, pcm.length, true);
+    out.set(pcm, 44);
+    return out;
+}
+
+/** Wraps raw `audio/L16` / `audio/pcm` payloads in a WAV header; other formats pass through. */
+export function toPlayableAudio(data: string, mimeType: string): Blob {
+    const bytes = base64ToBytes(data);
+    const type = mimeType.toLowerCase();
+    if (type.startsWith('audio/l16') || type.startsWith('audio/pcm')) {
+        const rate = Number(type.match(/rate=(\d+)/)?.[1]) || 24000;
+        return new Blob([encodeWav(bytes, rate)], { type: 'audio/wav' });
+    }
+    return new Blob([bytes], { type: mimeType });
+}
+
+/**
+ * A soft tone of the given length: the offline stand-in for a spoken line.
+ * `frequency` 0 gives silence.
+ */
+export function placeholderSpeechPcm(seconds: number, frequency: number, sampleRate = PLACEHOLDER_SAMPLE_RATE): Uint8Array {
+    const count = Math.max(1, Math.round(seconds * sampleRate));
+    const pcm = new Uint8Array(count * 2);
+    const view = new DataView(pcm.buffer);
+    const fade = Math.min(count / 2, sampleRate * 0.05);
+    for (let i = 0; i < count; i++) {
+        const envelope = Math.min(1, i / fade, (count - i) / fade);
+        // A slow wobble so consecutive lines do not sound like one continuous beep.
+        const syllable = 0.6 + 0.4 * Math.sin((2 * Math.PI * 4 * i) / sampleRate);
+        const sample = frequency > 0 ? Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 0.2 * envelope * syllable : 0;
+        view.setInt16(i * 2, Math.round(sample * 0x7fff), true);
+    }
+    return pcm;
+}
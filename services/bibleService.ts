@@ -0,0 +1,86 @@
+import { AnalyzedCharacter } from '../types';
+import { normalizeName } from './castService';
+
+/**
+ * Helpers for the structured Character Bible. Prompts receive only the
+ * entries relevant to a scene, formatted by `formatBibleEntries`, instead of a
+ * truncated prose document.
+ */
+
+const GENDERS: AnalyzedCharacter['gender'][] = ['male', 'female', 'unknown'];
+
+const asText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+/** Coerces a model's JSON answer into well-formed bible entries, dropping nameless ones and duplicates. */
+export function normalizeBible(raw: unknown): AnalyzedCharacter[] {
+    const list = Array.isArray(raw) ? raw : Array.isArray((raw as { characters?: unknown })?.characters) ? (raw as { characters: unknown[] }).characters : [];
+    const seen = new Set<string>();
+    const entries: AnalyzedCharacter[] = [];
+    for (const item of list) {
+        const record = (item || {}) as Record<string, unknown>;
+        const name = asText(record.name);
+        if (!name || seen.has(normalizeName(name))) continue;
+        seen.add(normalizeName(name));
+        const gender = asText(record.gender).toLowerCase() as AnalyzedCharacter['gender'];
+        entries.push({
+            name,
+            gender: GENDERS.includes(gender) ? gender : 'unknown',
+            race: asText(record.race) || undefined,
+            visualTraits: asText(record.visualTraits),
+            avatarFilename: asText(record.avatarFilename) || null,
+            dialogueStyle: asText(record.dialogueStyle),
+            voiceDescription: asText(record.voiceDescription) || undefined,
+            otherDescriptors: asText(record.otherDescriptors) || undefined,
+        });
+    }
+    return entries;
+}
+
+export function findBibleEntry(bible: AnalyzedCharacter[], name: string): AnalyzedCharacter | undefined {
+    const wanted = normalizeName(name);
+    return bible.find(entry => normalizeName(entry.name) === wanted);
+}
+
+/** Entries whose name appears in the scene text (whole-word, case-insensitive). */
+export function entriesInScene(bible: AnalyzedCharacter[], sceneText: string): AnalyzedCharacter[] {
+    const haystack = sceneText.toLowerCase();
+    return bible.filter(entry => {
+        const escaped = normalizeName(entry.name).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return new RegExp(`\\b${escaped}\\b`).test(haystack);
+    });
+}
+
+/** Entries for the named characters, in the order given, skipping names the bible does not know. */
+export function entriesForNames(bible: AnalyzedCharacter[], names: string[]): AnalyzedCharacter[] {
+    const picked: AnalyzedCharacter[] = [];
+    for (const name of names) {
+        const entry = findBibleEntry(bible, name);
+        if (entry && !picked.includes(entry)) picked.push(entry);
+    }
+    return picked;
+}
+
+export function formatBibleEntry(entry: AnalyzedCharacter): string {
+    const lines = [
+        `CHARACTER: ${entry.name} (${entry.gender}${entry.race ? `, ${entry.race}` : ''})`,
+        `  AVATAR: ${entry.avatarFilename || 'none'}`,
+        `  VISUAL: ${entry.visualTraits || 'unspecified'}`,
+        `  DIALOGUE STYLE: ${entry.dialogueStyle || 'unspecified'}`,
+    ];
+    if (entry.voiceDescription) lines.push(`  VOICE: ${entry.voiceDescription}`);
+    if (entry.otherDescriptors) lines.push(`  NOTES: ${entry.otherDescriptors}`);
+    return lines.join('\n');
+}
+
+export function formatBibleEntries(entries: AnalyzedCharacter[]): string {
+    return entries.length > 0 ? entries.map(formatBibleEntry).join('\n\n') : 'No matching bible entries.';
+}
+
+/** One line per character; used when a prompt needs the whole roster but not the detail. */
+export function formatBibleRoster(bible: AnalyzedCharacter[]): string {
+    return bible.map(entry => `- ${entry.name} → ${entry.avatarFilename || 'no avatar'}`).join('\n') || 'No characters.';
+}
+
+export function emptyBibleEntry(name = ''): AnalyzedCharacter {
+    return { name, gender: 'unknown', visualTraits: '', avatarFilename: null, dialogueStyle: '' };
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { AnalyzedCharacter, SourceImage } from '../types';
+import { EMPTY_CAST, resolveFrameCast } from './castService';
+
+const avatar = (fileName: string): SourceImage => ({ fileName, base64: 'AAAA', mimeType: 'image/png' });
+const avatars = { 'jane.png': avatar('jane.png'), 'tom.png': avatar('tom.png') };
+const bible: AnalyzedCharacter[] = [
+    { name: 'Jane', gender: 'female', visualTraits: '', avatarFilename: 'jane.png', dialogueStyle: '' },
+    { name: 'Tom', gender: 'male', visualTraits: '', avatarFilename: 'tom.png', dialogueStyle: '' },
+];
+const model = { characterName: 'Jane', avatarFilename: 'jane.png' };
+
+describe('resolveFrameCast', () => {
+    it("gives an overridden subject the bible's avatar", () => {
+        const cast = { ...EMPTY_CAST, frameSubjects: { 'scene1.png': 'Tom' } };
+        expect(resolveFrameCast(cast, bible, 'scene1.png', model, avatars)).toEqual({ characterName: 'Tom', avatarFilename: 'tom.png', avatarSource: 'bible' });
+    });
+
+    it('prefers a pinned avatar over the model and the bible', () => {
+        const cast = { ...EMPTY_CAST, pinned: { Jane: 'tom.png' } };
+        expect(resolveFrameCast(cast, bible, 'scene1.png', model, avatars)).toMatchObject({ avatarFilename: 'tom.png', avatarSource: 'pinned' });
+    });
+});
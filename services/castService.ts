@@ -0,0 +1,115 @@
+import { AnalyzedCharacter, CastMapping, SourceImage } from '../types';
+
+/**
+ * Character-to-avatar resolution. Pinned mappings from the cast table always
+ * win; the model's answer is only used for characters nobody has pinned.
+ */
+
+export const EMPTY_CAST: CastMapping = { characters: [], pinned: {}, frameSubjects: {} };
+
+export const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const baseName = (path: string) => path.split('/').pop()!.toLowerCase();
+
+export function characterNameFromFile(fileName: string): string {
+    const base = fileName.split('/').pop()!.replace(/\.[^.]+$/, '').replace(/^avatars?[_\- ]*/i, '');
+    const words = base.split(/[_\- ]+/).filter(Boolean);
+    if (words.length === 0) return 'Unknown';
+    return words.map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()).join(' ');
+}
+
+/**
+ * Finds the `avatars` key a model-supplied filename refers to. Models often
+ * drop the folder prefix or change case, so fall back to a basename match.
+ */
+export function resolveAvatarKey(fileName: string | null | undefined, avatars: Record<string, SourceImage>): string | null {
+    if (!fileName) return null;
+    if (avatars[fileName]) return fileName;
+    const wanted = baseName(fileName);
+    return Object.keys(avatars).find(key => baseName(key) === wanted) || null;
+}
+
+export function pinnedAvatarFor(cast: CastMapping, characterName: string): string | null {
+    const wanted = normalizeName(characterName);
+    const match = Object.keys(cast.pinned).find(name => normalizeName(name) === wanted);
+    return match ? cast.pinned[match] : null;
+}
+
+/**
+ * Candidate character names for the cast table: every bible entry, plus a
+ * name derived from each avatar filename the bible did not already cover.
+ */
+export function extractCharacterCandidates(bible: AnalyzedCharacter[], avatarFiles: string[]): string[] {
+    const seen = new Map<string, string>();
+    const add = (name: string) => {
+        const clean = name.trim();
+        const key = normalizeName(clean);
+        if (clean && !seen.has(key)) seen.set(key, clean);
+    };
+    bible.forEach(entry => add(entry.name));
+    const covered = new Set(bible.map(entry => entry.avatarFilename).filter(Boolean));
+    avatarFiles.filter(file => !covered.has(file)).forEach(file => add(characterNameFromFile(file)));
+    return Array.from(seen.values());
+}
+
+/** Pins every character whose name matches an avatar filename, leaving existing pins alone. */
+export function autoMatchCast(cast: CastMapping, avatarFiles: string[]): CastMapping {
+    const pinned = { ...cast.pinned };
+    for (const character of cast.characters) {
+        if (pinnedAvatarFor({ ...cast, pinned }, character)) continue;
+        const match = avatarFiles.find(file => normalizeName(characterNameFromFile(file)) === normalizeName(character));
+        if (match) pinned[character] = match;
+    }
+    return { ...cast, pinned };
+}
+
+/** Pinned avatar first, then the bible's; null when neither names a loaded avatar. */
+export function avatarForCharacter(
+    cast: CastMapping,
+    bible: AnalyzedCharacter[],
+    characterName: string,
+    avatars: Record<string, SourceImage>,
+): string | null {
+    const pinned = resolveAvatarKey(pinnedAvatarFor(cast, characterName), avatars);
+    if (pinned) return pinned;
+    const entry = bible.find(e => normalizeName(e.name) === normalizeName(characterName));
+    return resolveAvatarKey(entry?.avatarFilename, avatars);
+}
+
+export type AvatarSource = 'pinned' | 'model' | 'bible' | 'none';
+
+export interface ResolvedCast {
+    characterName: string;
+    avatarFilename: string | null;
+    avatarSource: AvatarSource;
+}
+
+/**
+ * Applies the cast table to the model's identification of a frame: a per-frame
+ * subject override replaces the model's subject, and a pinned avatar replaces
+ * the model's avatar. Without either avatar the subject gets the bible's, as
+ * everyone else on screen does.
+ */
+export function resolveFrameCast(
+    cast: CastMapping,
+    bible: AnalyzedCharacter[],
+    frameName: string,
+    model: { characterName: string; avatarFilename: string | null },
+    avatars: Record<string, SourceImage>
+): ResolvedCast {
+    const override = cast.frameSubjects[frameName];
+    const characterName = override || model.characterName;
+
+    const pinned = resolveAvatarKey(pinnedAvatarFor(cast, characterName), avatars);
+    if (pinned) return { characterName, avatarFilename: pinned, avatarSource: 'pinned' };
+
+    // The model's avatar belongs to the model's subject; it does not carry over to an overridden one.
+    const sameSubject = normalizeName(characterName) === normalizeName(model.characterName);
+    const modelAvatar = sameSubject ? resolveAvatarKey(model.avatarFilename, avatars) : null;
+    if (modelAvatar) return { characterName, avatarFilename: modelAvatar, avatarSource: 'model' };
+
+    const bibleAvatar = avatarForCharacter(cast, bible, characterName, avatars);
+    if (bibleAvatar) return { characterName, avatarFilename: bibleAvatar, avatarSource: 'bible' };
+
+    return { characterName, avatarFilename: null, avatarSource: 'none' };
+}
@@ -0,0 +1,122 @@
+import { ConsistencyScore, RejuvenatedItem, SourceImage } from '../types';
+import { loadImage } from './frameFormatService';
+import { verifyIdentity } from './geminiService';
+import { describeError } from './errors';
+import { compareFrameNames } from './sidecarService';
+
+/**
+ * Scores each generated frame before an editor sees it. Identity is judged by
+ * the vision model against the avatar; style drift is a colour-histogram
+ * comparison with the finished frames either side. The weaker of the two is
+ * the frame's score.
+ */
+
+export interface ConsistencySettings {
+    enabled: boolean;
+    /** Frames scoring below this are flagged (0–1). */
+    threshold: number;
+    /** Extra generations to try while a frame stays below the threshold; 0 only flags. */
+    maxRegenerations: number;
+}
+
+export const DEFAULT_CONSISTENCY_SETTINGS: ConsistencySettings = {
+    enabled: true,
+    threshold: 0.6,
+    maxRegenerations: 0,
+};
+
+const HISTOGRAM_SIZE = 32;
+const BINS_PER_CHANNEL = 4;
+
+/** Normalised 4×4×4 RGB histogram of a downscaled copy of the image. */
+async function colorHistogram(base64: string, mimeType = 'image/png'): Promise<Float32Array> {
+    const image = await loadImage(`data:${mimeType};base64,${base64}`);
+    const canvas = document.createElement('canvas');
+    canvas.width = HISTOGRAM_SIZE;
+    canvas.height = HISTOGRAM_SIZE;
+    const g = canvas.getContext('2d', { willReadFrequently: true })!;
+    g.drawImage(image, 0, 0, HISTOGRAM_SIZE, HISTOGRAM_SIZE);
+    const { data } = g.getImageData(0, 0, HISTOGRAM_SIZE, HISTOGRAM_SIZE);
+
+    const histogram = new Float32Array(BINS_PER_CHANNEL ** 3);
+    const bin = (value: number) => Math.min(BINS_PER_CHANNEL - 1, Math.floor(value / (256 / BINS_PER_CHANNEL)));
+    for (let i = 0; i < data.length; i += 4) {
+        histogram[(bin(data[i]) * BINS_PER_CHANNEL + bin(data[i + 1])) * BINS_PER_CHANNEL + bin(data[i + 2])]++;
+    }
+    const pixels = data.length / 4;
+    return histogram.map(count => count / pixels);
+}
+
+/** Histogram intersection: 1 for identical colour distributions, 0 for disjoint ones. */
+function histogramSimilarity(a: Float32Array, b: Float32Array): number {
+    let shared = 0;
+    for (let i = 0; i < a.length; i++) shared += Math.min(a[i], b[i]);
+    return shared;
+}
+
+/** Outputs of the nearest finished frames before and after `originalName`, in filename order. */
+export function neighbourOutputs(originalName: string, items: RejuvenatedItem[]): string[] {
+    const done = items
+        .filter(item => item.status === 'DONE' && item.base64 && item.originalName !== originalName)
+        .sort((a, b) => compareFrameNames(a.originalName, b.originalName));
+    const before = done.filter(item => compareFrameNames(item.originalName, originalName) < 0).pop();
+    const after = done.find(item => compareFrameNames(item.originalName, originalName) > 0);
+    return [before, after].filter((item): item is RejuvenatedItem => !!item).map(item => item.base64!);
+}
+
+/**
+ * Scores one output. A failed identity check leaves that component null and
+ * is noted rather than failing the frame.
+ */
+export async function scoreFrame(
+    outputBase64: string,
+    characterName: string,
+    avatar: SourceImage | null,
+    neighbours: string[],
+    attempts: number,
+    settings: ConsistencySettings,
+    frame?: string,
+): Promise<ConsistencyScore> {
+    const notes: string[] = [];
+
+    let identity: number | null = null;
+    if (avatar) {
+        try {
+            const verdict = await verifyIdentity(avatar.base64, avatar.mimeType, outputBase64, characterName, frame);
+            identity = verdict.score;
+            if (verdict.reasoning) notes.push(verdict.reasoning);
+        } catch (error) {
+            notes.push(`Identity check failed: ${describeError(error)}`);
+        }
+    }
+
+    let style: number | null = null;
+    // The histogram needs a canvas; headless runs score identity only.
+    if (neighbours.length > 0 && typeof document !== 'undefined') {
+        try {
+            const own = await colorHistogram(outputBase64);
+            const others = await Promise.all(neighbours.map(n => colorHistogram(n)));
+            style = others.reduce((sum, other) => sum + histogramSimilarity(own, other), 0) / others.length;
+        } catch (error) {
+            notes.push(`Style check failed: ${describeError(error)}`);
+        }
+    }
+
+    const measured = [identity, style].filter((v): v is number => v !== null);
+    const score = measured.length > 0 ? Math.min(...measured) : null;
+    return {
+        identity,
+        style,
+        score,
+        attempts,
+        flagged: score !== null && score < settings.threshold,
+        notes: notes.join(' ') || undefined,
+    };
+}
+
+const pct = (value: number | null) => (value === null ? 'N/A' : value.toFixed(2));
+
+/** One-line summary for the frame's metadata file. */
+export function formatConsistency(c: ConsistencyScore): string {
+    return `${pct(c.score)} (IDENTITY ${pct(c.identity)}, STYLE ${pct(c.style)})${c.flagged ? ' FLAGGED' : ''}, ${c.attempts} ATTEMPT${c.attempts === 1 ? '' : 'S'}${c.notes ? ` — ${c.notes}` : ''}`;
+}
@@ -0,0 +1,55 @@
+import { ModelStage } from './providers';
+
+/**
+ * Raised when a model stage cannot produce a usable answer, either because the
+ * call itself failed (after retries) or because the response was empty or
+ * malformed. Callers use it to mark a frame failed instead of carrying
+ * fallback text forward.
+ */
+export class ModelCallError extends Error {
+    readonly stage: ModelStage;
+    readonly transient: boolean;
+    readonly cause?: unknown;
+
+    constructor(stage: ModelStage, message: string, options: { transient?: boolean; cause?: unknown } = {}) {
+        super(`[${stage}] ${message}`);
+        this.name = 'ModelCallError';
+        this.stage = stage;
+        this.transient = options.transient ?? false;
+        this.cause = options.cause;
+    }
+}
+
+/**
+ * Raised when an uploaded archive or folder cannot be used as it is: over the
+ * size, entry-count or nesting limits, or with an unreadable manifest. The
+ * message is meant for the operator.
+ */
+export class IngestError extends Error {
+    readonly archive: string;
+
+    constructor(archive: string, message: string) {
+        super(`${archive}: ${message}`);
+        this.name = 'IngestError';
+        this.archive = archive;
+    }
+}
+
+const TRANSIENT_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+const TRANSIENT_MESSAGE = /RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|rate limit|overloaded|timed? ?out|ECONNRESET|ETIMEDOUT|fetch failed|network/i;
+
+/**
+ * Rate limits, server-side hiccups and dropped connections are worth retrying;
+ * bad requests, auth failures and safety blocks are not.
+ */
+export function isTransientError(error: unknown): boolean {
+    if (error instanceof ModelCallError) return error.transient;
+    const status = (error as { status?: unknown })?.status;
+    if (typeof status === 'number') return TRANSIENT_STATUS.has(status);
+    const message = error instanceof Error ? error.message : String(error);
+    return TRANSIENT_MESSAGE.test(message);
+}
+
+export function describeError(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
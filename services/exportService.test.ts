@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { RejuvenatedItem } from '../types';
+import { buildManifest, deliveredNames, productionFiles } from './exportService';
+import { DEFAULT_STYLE_LIBRARY } from './styleService';
+
+const item = (originalName: string): RejuvenatedItem => ({
+    originalName,
+    newName: '',
+    base64: 'AAAA',
+    prompt: '',
+    characterName: 'Jane',
+    avatarFilename: null,
+    status: 'DONE',
+    meta: `ORIGINAL: ${originalName}`,
+});
+
+describe('deliveredNames', () => {
+    it('strips only the last extension', () => {
+        expect(deliveredNames(['shot.01.a.png']).get('shot.01.a.png')).toEqual({
+            file: 'shot.01.a_rejuvenated.png',
+            frame: 'frames/shot.01.a_rejuvenated.png',
+            meta: 'meta/shot.01.a_meta.txt',
+        });
+    });
+
+    it('gives colliding names a suffix instead of overwriting', () => {
+        const names = deliveredNames(['scene1.png', 'scene1.jpg', 'b/Scene1.png']);
+        expect(new Set([...names.values()].map(n => n.frame)).size).toBe(3);
+        expect(new Set([...names.values()].map(n => n.meta)).size).toBe(3);
+    });
+});
+
+const styles = DEFAULT_STYLE_LIBRARY;
+
+describe('buildManifest', () => {
+    it('lists frames in numeric filename order', () => {
+        const manifest = buildManifest({ results: ['scene10.png', 'scene2.png', 'scene1.png'].map(item), names: deliveredNames(['scene10.png', 'scene2.png', 'scene1.png']), style: '', styles });
+        expect(manifest.frames.map(f => f.originalName)).toEqual(['scene1.png', 'scene2.png', 'scene10.png']);
+    });
+
+    it('writes one file per frame when names collide', () => {
+        const files = productionFiles({ results: ['scene1.png', 'scene1.jpg'].map(item), names: deliveredNames(['scene1.png', 'scene1.jpg']), bible: [], script: '', style: '', styles });
+        const paths = files.map(f => f.path);
+        expect(new Set(paths).size).toBe(paths.length);
+        expect(paths.filter(p => p.startsWith('frames/'))).toHaveLength(2);
+    });
+
+    it("keeps a frame's paths whichever frames are exported", () => {
+        const names = deliveredNames(['scene1.jpg', 'scene1.png']);
+        const alone = buildManifest({ results: [item('scene1.png')], names, style: '', styles }).frames[0];
+        const together = buildManifest({ results: ['scene1.jpg', 'scene1.png'].map(item), names, style: '', styles }).frames[1];
+        expect(alone.newName).toBe(together.newName);
+        expect(alone.metaFile).toBe(together.metaFile);
+    });
+});
+
+describe('manifest numbers', () => {
+    it('rounds consistency scores and cost', () => {
+        const scored = { ...item('scene1.png'), consistency: { identity: 0.8800000000000001, style: null, score: 0.8800000000000001, attempts: 1, flagged: false }, usage: { inputTokens: 1, outputTokens: 2, cost: 0.16500000000000004 } };
+        const [frame] = buildManifest({ results: [scored], names: deliveredNames(['scene1.png']), style: '', styles }).frames;
+        expect(frame.consistency).toMatchObject({ identity: 0.88, style: null, score: 0.88 });
+        expect(frame.usage?.cost).toBe(0.165);
+    });
+});
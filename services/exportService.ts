@@ -0,0 +1,179 @@
+import JSZip from 'jszip';
+import { AnalyzedCharacter, ConsistencyScore, FrameUsage, IdentityAssignment, RejuvenatedItem } from '../types';
+import { formatBibleEntries } from './bibleService';
+import { compareFrameNames, fileStem } from './sidecarService';
+import { StyleLibrary } from './styleService';
+
+/**
+ * Folder layout of a production archive. Downstream tools read these paths,
+ * so treat them as a stable contract.
+ */
+export const ARCHIVE_LAYOUT = {
+    manifest: 'manifest.json',
+    bible: 'bible.txt',
+    bibleJson: 'bible.json',
+    script: 'hs4000.txt',
+    frames: 'frames',
+    meta: 'meta',
+} as const;
+
+export const MANIFEST_VERSION = 1;
+
+export interface ManifestFrame {
+    originalName: string;
+    newName: string | null;
+    metaFile: string;
+    character: string;
+    avatar: string | null;
+    prompt: string;
+    status: RejuvenatedItem['status'];
+    error?: string;
+    consistency?: ConsistencyScore;
+    templates?: string[];
+    identities?: IdentityAssignment[];
+    usage?: FrameUsage;
+    stylePreset?: string;
+    beat?: string;
+}
+
+export interface ProductionManifest {
+    version: number;
+    createdAt: string;
+    style: string;
+    styles: StyleLibrary;
+    bible: string;
+    bibleJson: string;
+    script: string;
+    frameCount: number;
+    frames: ManifestFrame[];
+}
+
+export interface ProductionArchiveInput {
+    results: RejuvenatedItem[];
+    /** deliveredNames over every source frame, not just the exported results. */
+    names: Map<string, DeliveredNames>;
+    bible: AnalyzedCharacter[];
+    script: string;
+    style: string;
+    styles: StyleLibrary;
+}
+
+export interface DeliveredNames {
+    /** Output filename, e.g. `scene1_rejuvenated.png`. */
+    file: string;
+    frame: string;
+    meta: string;
+}
+
+/**
+ * Archive paths of each frame's output and metadata, by original name. Names
+ * come from the filename without folders or its last extension; when two
+ * frames share one (`scene1.png` and `scene1.jpg`, or the same name in two
+ * folders), later frames in frame order get `_2`, `_3`, ... so nothing is
+ * overwritten. Compared case-insensitively, as many file systems do. Pass
+ * every source frame, not a filtered subset, so a frame keeps its paths
+ * whichever other frames an export holds.
+ */
+export function deliveredNames(originalNames: string[]): Map<string, DeliveredNames> {
+    const taken = new Set<string>();
+    const names = new Map<string, DeliveredNames>();
+    for (const originalName of [...originalNames].sort(compareFrameNames)) {
+        const stem = fileStem(originalName) || 'frame';
+        let name = stem;
+        for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${stem}_${n}`;
+        taken.add(name.toLowerCase());
+        names.set(originalName, {
+            file: `${name}_rejuvenated.png`,
+            frame: `${ARCHIVE_LAYOUT.frames}/${name}_rejuvenated.png`,
+            meta: `${ARCHIVE_LAYOUT.meta}/${name}_meta.txt`,
+        });
+    }
+    return names;
+}
+
+// The manifest rounds scores to 3 places and cost to 6, so it reads 0.88 rather than 0.8800000000000001.
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+const roundScore = (value: number | null) => (value === null ? null : round(value, 3));
+const manifestConsistency = (c: ConsistencyScore): ConsistencyScore =>
+    ({ ...c, identity: roundScore(c.identity), style: roundScore(c.style), score: roundScore(c.score) });
+const manifestUsage = (u: FrameUsage): FrameUsage => ({ ...u, cost: round(u.cost, 6) });
+
+/**
+ * Builds the manifest describing every frame of a run, in frame order.
+ */
+export function buildManifest({ results, names, style, styles }: Omit<ProductionArchiveInput, 'bible' | 'script'>): ProductionManifest {
+    const frames = [...results]
+        .sort((a, b) => compareFrameNames(a.originalName, b.originalName))
+        .map<ManifestFrame>(item => ({
+            originalName: item.originalName,
+            newName: item.base64 ? names.get(item.originalName)!.frame : null,
+            metaFile: names.get(item.originalName)!.meta,
+            character: item.characterName,
+            avatar: item.avatarFilename,
+            prompt: item.prompt,
+            status: item.status,
+            ...(item.error ? { error: item.error } : {}),
+            ...(item.consistency ? { consistency: manifestConsistency(item.consistency) } : {}),
+            ...(item.templates ? { templates: item.templates } : {}),
+            ...(item.identities ? { identities: item.identities } : {}),
+            ...(item.usage ? { usage: manifestUsage(item.usage) } : {}),
+            ...(item.stylePreset ? { stylePreset: item.stylePreset } : {}),
+            ...(item.beat ? { beat: item.beat } : {}),
+        }));
+
+    return {
+        version: MANIFEST_VERSION,
+        createdAt: new Date().toISOString(),
+        style,
+        styles,
+        bible: ARCHIVE_LAYOUT.bible,
+        bibleJson: ARCHIVE_LAYOUT.bibleJson,
+        script: ARCHIVE_LAYOUT.script,
+        frameCount: frames.length,
+        frames,
+    };
+}
+
+export interface ProductionFile {
+    path: string;
+    content: string;
+    /** Content is base64-encoded binary. */
+    base64?: boolean;
+}
+
+/**
+ * Every file of a production run at its archive path, for the ZIP download
+ * or for writing straight to a directory.
+ */
+export function productionFiles(input: ProductionArchiveInput): ProductionFile[] {
+    const manifest = buildManifest(input);
+    const files: ProductionFile[] = [
+        { path: ARCHIVE_LAYOUT.bible, content: formatBibleEntries(input.bible) },
+        { path: ARCHIVE_LAYOUT.bibleJson, content: JSON.stringify(input.bible, null, 2) },
+        { path: ARCHIVE_LAYOUT.script, content: input.script },
+    ];
+
+    const byName = new Map(input.results.map(item => [item.originalName, item]));
+    for (const frame of manifest.frames) {
+        const item = byName.get(frame.originalName)!;
+        files.push({ path: frame.metaFile, content: item.meta });
+        if (frame.newName && item.base64) {
+            files.push({ path: frame.newName, content: item.base64, base64: true });
+        }
+    }
+
+    files.push({ path: ARCHIVE_LAYOUT.manifest, content: JSON.stringify(manifest, null, 2) });
+    return files;
+}
+
+/**
+ * Packages every result, meta file, the bible, the reconstructed script and
+ * the manifest into a single ZIP.
+ */
+export async function buildProductionArchive(input: ProductionArchiveInput): Promise<Blob> {
+    const zip = new JSZip();
+    for (const file of productionFiles(input)) {
+        zip.file(file.path, file.content, { base64: !!file.base64 });
+    }
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { bytesToBase64 } from './audioService';
+import { readImageSize } from './frameFormatService';
+
+const segment = (marker: number, payload: Uint8Array) =>
+    Uint8Array.from([0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff, ...payload]);
+
+/** A JPEG header: SOI, the given segments, then a baseline SOF0 of `width`×`height`. */
+function jpeg(width: number, height: number, ...segments: Uint8Array[]) {
+    const sof = segment(0xc0, Uint8Array.from([8, height >> 8, height & 0xff, width >> 8, width & 0xff, 1, 1, 0x11, 0]));
+    const parts = [Uint8Array.from([0xff, 0xd8]), ...segments, sof, Uint8Array.from([0xff, 0xd9])];
+    const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    parts.reduce((offset, part) => {
+        bytes.set(part, offset);
+        return offset + part.length;
+    }, 0);
+    return bytesToBase64(bytes);
+}
+
+describe('readImageSize', () => {
+    it('reads a JPEG whose SOF follows an APP1 segment larger than 64 KB', () => {
+        const exif = segment(0xe1, new Uint8Array(0xffff - 2).fill(0x45));
+        const icc = segment(0xe2, new Uint8Array(40000));
+        const base64 = jpeg(1920, 816, exif, icc);
+        expect(base64.length * 3 / 4).toBeGreaterThan(64 * 1024);
+        expect(readImageSize(base64)).toEqual({ width: 1920, height: 816 });
+    });
+
+    it('reads a JPEG with only small segments', () => {
+        expect(readImageSize(jpeg(640, 480, segment(0xe0, new Uint8Array(14))))).toEqual({ width: 640, height: 480 });
+    });
+
+    it('returns null for a JPEG cut off before its SOF', () => {
+        const base64 = jpeg(640, 480, segment(0xe1, new Uint8Array(30000)));
+        expect(readImageSize(base64.slice(0, 8000))).toBeNull();
+    });
+
+    it('returns null for data that is not an image', () => {
+        expect(readImageSize(bytesToBase64(new TextEncoder().encode('not an image at all, just text')))).toBeNull();
+    });
+});
@@ -0,0 +1,160 @@
+import { AspectRatio } from './providers';
+import { base64ToBytes } from './audioService';
+
+/**
+ * Keeps generated frames in the source's shape. The model is asked for the
+ * supported aspect ratio closest to each source frame (or a project-wide
+ * override), and the result is then conformed to the source's exact pixel
+ * size so it drops back into the edit unchanged.
+ */
+
+export const SUPPORTED_ASPECT_RATIOS: AspectRatio[] = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+
+/** crop fills the frame and trims overflow, letterbox fits it with black bars, stretch scales each axis independently. */
+export type FitMode = 'crop' | 'letterbox' | 'stretch';
+
+export interface FrameFormat {
+    aspectRatio: 'auto' | AspectRatio;
+    fit: FitMode;
+}
+
+export const DEFAULT_FRAME_FORMAT: FrameFormat = { aspectRatio: 'auto', fit: 'crop' };
+
+export interface ImageSize {
+    width: number;
+    height: number;
+}
+
+const ratioValue = (ratio: AspectRatio) => {
+    const [w, h] = ratio.split(':').map(Number);
+    return w / h;
+};
+
+/** Nearest supported ratio, compared on a log scale so 2:1 and 1:2 are equally far from 1:1. */
+export function nearestAspectRatio({ width, height }: ImageSize): AspectRatio {
+    const target = Math.log(width / height);
+    return SUPPORTED_ASPECT_RATIOS.reduce((best, ratio) =>
+        Math.abs(Math.log(ratioValue(ratio)) - target) < Math.abs(Math.log(ratioValue(best)) - target) ? ratio : best);
+}
+
+/** Decodes `length` bytes from `offset` of a base64 string, touching only the characters that cover them. */
+function bytesAt(base64: string, offset: number, length: number): Uint8Array {
+    const first = Math.floor(offset / 3);
+    const last = Math.ceil((offset + length) / 3);
+    const bytes = base64ToBytes(base64.slice(first * 4, last * 4));
+    return bytes.subarray(offset - first * 3, offset - first * 3 + length);
+}
+
+/** Walks JPEG segments by their lengths to the SOF marker, however large the EXIF, XMP or ICC segments before it. */
+function readJpegSize(base64: string): ImageSize | null {
+    const total = Math.floor(base64.replace(/=+$/, '').length * 3 / 4);
+    let offset = 2;
+    while (offset + 9 <= total) {
+        const segment = bytesAt(base64, offset, 9);
+        if (segment[0] !== 0xff) return null;
+        const marker = segment[1];
+        // Fill bytes, and markers without a length (RSTn, TEM).
+        if (marker === 0xff) {
+            offset++;
+            continue;
+        }
+        if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+            offset += 2;
+            continue;
+        }
+        const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+        // SOF0–SOF15 carry the frame size; C4 (DHT), C8 (JPG) and CC (DAC) share the range but do not.
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return { width: view.getUint16(7), height: view.getUint16(5) };
+        }
+        if (marker === 0xd9 || marker === 0xda) return null;
+        offset += 2 + view.getUint16(2);
+    }
+    return null;
+}
+
+/**
+ * Reads pixel dimensions from a PNG, JPEG, GIF or WebP header without
+ * decoding the image, so it also works outside the browser. Null when the
+ * format is not recognised.
+ */
+export function readImageSize(base64: string): ImageSize | null {
+    const bytes = bytesAt(base64, 0, 32);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const ascii = (offset: number, length: number) => String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+    if (bytes.length >= 24 && bytes[0] === 0x89 && ascii(1, 3) === 'PNG') {
+        return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+    if (bytes.length >= 10 && ascii(0, 3) === 'GIF') {
+        return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+    }
+    if (bytes.length >= 30 && ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') {
+        const chunk = ascii(12, 4);
+        if (chunk === 'VP8X') return { width: 1 + (view.getUint32(24, true) & 0xffffff), height: 1 + (view.getUint32(27, true) & 0xffffff) };
+        if (chunk === 'VP8L') {
+            const bits = view.getUint32(21, true);
+            return { width: 1 + (bits & 0x3fff), height: 1 + ((bits >> 14) & 0x3fff) };
+        }
+        if (chunk === 'VP8 ') return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    }
+    if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) return readJpegSize(base64);
+    return null;
+}
+
+/**
+ * The source's pixel size: from its header, or in the browser by decoding it
+ * when the header cannot be read. Null only outside the browser.
+ */
+export async function measureImage(base64: string, mimeType: string): Promise<ImageSize | null> {
+    const size = readImageSize(base64);
+    if (size || typeof document === 'undefined') return size;
+    try {
+        const image = await loadImage(`data:${mimeType};base64,${base64}`);
+        return { width: image.naturalWidth, height: image.naturalHeight };
+    } catch {
+        return null;
+    }
+}
+
+/** The ratio to request for a source frame: the project override, else the nearest supported ratio. */
+export function aspectRatioFor(source: ImageSize | null, format: FrameFormat): AspectRatio {
+    if (format.aspectRatio !== 'auto') return format.aspectRatio;
+    return source ? nearestAspectRatio(source) : '16:9';
+}
+
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Image could not be decoded.'));
+    image.src = src;
+});
+
+/** Redraws a generated PNG at exactly `target` pixels. Returns the input untouched when it already matches. */
+export async function conformImage(base64: string, target: ImageSize, fit: FitMode): Promise<string> {
+    const size = readImageSize(base64);
+    if (size && size.width === target.width && size.height === target.height) return base64;
+
+    const image = await loadImage(`data:image/png;base64,${base64}`);
+    const canvas = document.createElement('canvas');
+    canvas.width = target.width;
+    canvas.height = target.height;
+    const g = canvas.getContext('2d')!;
+    g.imageSmoothingQuality = 'high';
+
+    const sw = image.naturalWidth;
+    const sh = image.naturalHeight;
+    if (fit === 'stretch') {
+        g.drawImage(image, 0, 0, target.width, target.height);
+    } else {
+        const scale = fit === 'crop'
+            ? Math.max(target.width / sw, target.height / sh)
+            : Math.min(target.width / sw, target.height / sh);
+        const w = sw * scale;
+        const h = sh * scale;
+        g.fillStyle = '#000';
+        g.fillRect(0, 0, target.width, target.height);
+        g.drawImage(image, (target.width - w) / 2, (target.height - h) / 2, w, h);
+    }
+    return canvas.toDataURL('image/png').split(',')[1];
+}
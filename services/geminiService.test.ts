@@ -0,0 +1,21 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { identifyConsistentCharacter } from './geminiService';
+import { configureProvider, DEFAULT_STAGE_MODELS, getProvider } from './providers';
+
+describe('identifyConsistentCharacter', () => {
+    beforeEach(() => configureProvider({ providerId: 'mock', models: { ...DEFAULT_STAGE_MODELS } }));
+    afterEach(() => vi.restoreAllMocks());
+
+    const reply = (answer: object) =>
+        vi.spyOn(getProvider(), 'generate').mockResolvedValue({ text: JSON.stringify(answer), imageBase64: null });
+
+    it('keeps only names from otherCharacters', async () => {
+        reply({ characterName: 'Jane', otherCharacters: ['Tom', 3, ' ', null, ' Ann '] });
+        expect((await identifyConsistentCharacter('', '', [])).otherCharacters).toEqual(['Tom', 'Ann']);
+    });
+
+    it('ignores otherCharacters that is not a list', async () => {
+        reply({ characterName: 'Jane', otherCharacters: 'Tom' });
+        expect((await identifyConsistentCharacter('', '', [])).otherCharacters).toEqual([]);
+    });
+});
@@ -1,202 +1,246 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-}
-  
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { AspectRatio, ContentPart, GenerateRequest, getProvider, ModelStage, modelFor } from './providers';
+import { describeError, isTransientError, ModelCallError } from './errors';
+import { scheduleModelCall } from './scheduler';
+import { entriesForNames, entriesInScene, formatBibleEntries, formatBibleRoster, normalizeBible } from './bibleService';
+import { renderPrompt } from './promptTemplateService';
+import { recordUsage } from './usageService';
+import { errorDetails, logEvent } from './logService';
+import { signalFor } from './runControl';
+import { describePosition, parsePosition } from './identityService';
+import { AnalyzedCharacter, ScreenPosition } from '../types';
 
 /**
- * Creates a comprehensive "Character Bible" by analyzing the full script and avatar metadata.
+ * Routes a stage's request to the active provider with the model configured for that stage,
+ * under the shared rate limit and retry policy. Reported token usage is recorded against
+ * the stage and, when given, the frame. Each call, retries included, is logged as one
+ * event with its duration. Calls made for a frame of the active run are aborted when the
+ * run is cancelled or the frame skipped. Failures surface as ModelCallError.
  */
-export async function createCharacterBible(filenames: string[], fullScript: string): Promise<string> {
-    const prompt = `I am producing a high-stakes film. I need a master "Character Bible" for consistency.
-    
-    ASSET LIST (AVATARS): ${filenames.join(', ')}
-    
-    FULL SCRIPT EXCERPT:
-    ${fullScript.substring(0, 15000)}
-    
-    TASK:
-    1. EXHAUSTIVE ANALYSIS: For every character in the script, define their visual blueprint: skin tone, hair texture, distinct facial features (sharp jaw, hooked nose, etc.), and their signature "vibe" (neurotic, imposing, deceptive).
-    2. ASSET MAPPING: Map the provided filenames to these characters. Be logical. If 'avatar_boss.png' exists, it matches the 'Boss' character. 
-    3. STYLE KEY: Note their unique dialogue patterns to help infer physical performance.
-    
-    Format this as a technical production document for visual effects artists.`;
+async function generate(stage: ModelStage, parts: ContentPart[], options: Pick<GenerateRequest, 'json' | 'aspectRatio' | 'voice' | 'inputs'> & { frame?: string } = {}) {
+    const { frame, ...request } = options;
+    const model = modelFor(stage);
+    const started = Date.now();
+    const signal = signalFor(frame);
+    try {
+        const provider = getProvider();
+        const response = await scheduleModelCall(`${stage}:${model}`, () => provider.generate({ stage, model, parts, ...request, signal }), signal, provider.rateLimited);
+        if (response.usage) recordUsage(stage, model, response.usage, frame);
+        logEvent('debug', `MODEL CALL ${stage.toUpperCase()} OK`, { frame, call: { stage, model, ...response.usage }, durationMs: Date.now() - started });
+        return response;
+    } catch (error) {
+        const failure = error instanceof ModelCallError
+            ? error
+            : new ModelCallError(stage, describeError(error), { transient: isTransientError(error), cause: error });
+        logEvent(signal?.aborted ? 'info' : 'warn', `MODEL CALL ${stage.toUpperCase()} ${signal?.aborted ? 'ABORTED' : 'FAILED'}`, { frame, call: { stage, model }, durationMs: Date.now() - started, error: errorDetails(failure) });
+        throw failure;
+    }
+}
+
+function requireText(stage: ModelStage, text: string | null): string {
+    const trimmed = text?.trim();
+    if (!trimmed) throw new ModelCallError(stage, "Model returned an empty response.");
+    return trimmed;
+}
 
+function parseJson<T>(stage: ModelStage, text: string | null): T {
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-3-pro-preview", // Use Pro for the bible creation
-            contents: prompt,
-        });
-        return response.text || "Character Bible generation failed.";
+        return JSON.parse(requireText(stage, text)) as T;
     } catch (error) {
-        console.error("Error creating Bible:", error);
-        return "Error creating Character Bible.";
+        if (error instanceof ModelCallError) throw error;
+        throw new ModelCallError(stage, `Malformed JSON: ${describeError(error)}`, { cause: error });
     }
 }
 
 /**
- * Analyzes the visual content of a rough draft scene image.
+ * Creates a structured "Character Bible" by analyzing the full script and avatar metadata.
+ * @throws ModelCallError when the bible cannot be generated or contains no characters.
  */
-export async function analyzeSceneImage(base64: string, mimeType: string): Promise<string> {
-    const prompt = "DECONSTRUCT THIS FRAME: Describe the exact lighting setup (e.g., chiaroscuro, high-key), the camera lens feel, the character's current pose/silhouette, and the environment. Identify the exact emotional state of the character in the frame.";
-    
-    try {
-        const response = await ai.models.generateContent({
-            model: "gemini-3-flash-preview", // Flash 3 is great for vision
-            contents: {
-                parts: [
-                    { inlineData: { data: base64, mimeType } },
-                    { text: prompt }
-                ]
-            }
-        });
-        return response.text || "Visual analysis unavailable.";
-    } catch (error) {
-        return "Image analysis failed.";
+export async function createCharacterBible(filenames: string[], fullScript: string): Promise<AnalyzedCharacter[]> {
+    const parts = renderPrompt('bible', {
+        filenames: filenames.join(', '),
+        fullScript: fullScript.substring(0, 15000),
+    });
+
+    const response = await generate('bible', parts, { json: true, inputs: { filenames } });
+    const bible = normalizeBible(parseJson<unknown>('bible', response.text));
+    if (bible.length === 0) {
+        throw new ModelCallError('bible', "Bible contains no characters.");
     }
+    return bible;
+}
+
+/**
+ * Analyzes the visual content of a rough draft scene image.
+ * @throws ModelCallError when no analysis is available.
+ */
+export async function analyzeSceneImage(base64: string, mimeType: string, frame?: string): Promise<string> {
+    const response = await generate('analysis', renderPrompt('analysis', { sceneImage: { image: { data: base64, mimeType } } }), { frame });
+    return requireText('analysis', response.text);
 }
 
 /**
  * Maps the identified scene subject to the character bible and consistent avatar.
+ * @throws ModelCallError when the call fails or the answer is not valid JSON.
  */
 export async function identifyConsistentCharacter(
     sceneText: string, 
     sceneVisualAnalysis: string, 
-    characterBible: string
-): Promise<{ characterName: string; avatarFilename: string | null; otherCharacters?: string[] }> {
-    const prompt = `[CROSS-REFERENCE REQUEST]
-    
-    CONTEXT:
-    SCENE DIALOGUE/ACTION: "${sceneText}"
-    VISUAL DATA FROM ROUGH FRAME: "${sceneVisualAnalysis}"
-    
-    MASTER BIBLE:
-    ${characterBible.substring(0, 8000)}
-    
-    OUTPUT JSON ONLY:
-    {
-      "characterName": "Who is the primary subject currently on screen?",
-      "avatarFilename": "Which filename from the Bible represents this person?",
-      "otherCharacters": ["Who else is in the scene contextually?"],
-      "reasoning": "Brief technical justification."
-    }`;
+    characterBible: AnalyzedCharacter[],
+    frame?: string
+): Promise<{ characterName: string; avatarFilename: string | null; otherCharacters?: string[]; onScreen: { characterName: string; position: ScreenPosition }[] }> {
+    const sceneEntries = entriesInScene(characterBible, sceneText);
+    const parts = renderPrompt('identify', {
+        sceneText,
+        visualAnalysis: sceneVisualAnalysis,
+        sceneBible: formatBibleEntries(sceneEntries),
+        castRoster: formatBibleRoster(characterBible),
+    });
 
-    try {
-        const response = await ai.models.generateContent({
-            model: "gemini-3-flash-preview",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-            }
-        });
-        const result = JSON.parse(response.text || '{}');
-        return { 
-            characterName: result.characterName || "Unknown", 
-            avatarFilename: result.avatarFilename || null,
-            otherCharacters: result.otherCharacters || []
-        };
-    } catch (error) {
-        return { characterName: "Unknown", avatarFilename: null };
-    }
+    const response = await generate('identify', parts, {
+        json: true,
+        frame,
+        inputs: {
+            cast: characterBible.map(entry => ({ name: entry.name, avatarFilename: entry.avatarFilename })),
+            sceneCharacters: sceneEntries.map(entry => entry.name),
+        },
+    });
+    const result = parseJson<{ characterName?: string; avatarFilename?: string | null; otherCharacters?: unknown; onScreen?: unknown }>('identify', response.text);
+    const onScreen = Array.isArray(result.onScreen) ? result.onScreen : [];
+    const otherCharacters: unknown[] = Array.isArray(result.otherCharacters) ? result.otherCharacters : [];
+    return { 
+        characterName: result.characterName || "Unknown", 
+        avatarFilename: result.avatarFilename || null,
+        otherCharacters: otherCharacters.filter((name): name is string => typeof name === 'string' && name.trim() !== '').map(name => name.trim()),
+        onScreen: onScreen
+            .filter(o => o && typeof o.characterName === 'string' && o.characterName.trim())
+            .map(o => ({ characterName: o.characterName.trim(), position: parsePosition(o.position) })),
+    };
 }
 
 /**
  * Generates the final rejuvenation prompt using the bible, context, and visual gap analysis.
+ * @throws ModelCallError when no prompt is produced.
  */
 export async function generateRejuvenatedPrompt(
     sceneText: string, 
     characterName: string, 
     otherCharacters: string[],
-    bible: string, 
+    bible: AnalyzedCharacter[], 
     style: string,
     visualAnalysis: string,
-    fullScriptSnippet: string,
-    storyMap: string | null
+    scriptContext: string,
+    storyBeat: string | null,
+    frame?: string
 ): Promise<string> {
-    const prompt = `[CINEMATIC RECONSTRUCTION INSTRUCTION - NANO BANANA OPTIMIZED]
-    
-    STORY ENGINE DATA:
-    - PLOT PROGRESSION: ${storyMap || "Standard narrative arc."}
-    - CURRENT ACTION/DIALOGUE: ${sceneText}
-    - FULL CONTEXT: ${fullScriptSnippet.substring(0, 1500)}
-    
-    VISUAL PARAMETERS:
-    - TARGET IDENTITY: ${characterName} (Reference Bible traits: ${bible.substring(0, 1000)})
-    - ORIGINAL FRAME COMPOSITION: ${visualAnalysis}
-    - REQUIRED STYLE: ${style}
-    
-    TASK: Write a prompt for a high-end image diffusion model (Gemini 2.5 Image).
-    1. EMOTION INFERENCE: Determine the EXACT micro-expression required (e.g., "twitching eye in repressed rage", "a cold, calculating smirk").
-    2. DESTRUCTIVE REPLACEMENT: Instruct the model to RECODE the face. Specify the skin texture, the light hitting the specific bone structure of ${characterName}.
-    3. CINEMATOGRAPHY: Force specific lens traits (e.g. "Anamorphic bokeh, subtle halation, 35mm celluloid grit").
-    4. TONALITY: Match the 'action, tone, and emotion' of the script.
-    
-    Output ONLY the final prompt. No conversation.`;
+    const sceneEntries = entriesForNames(bible, [characterName, ...otherCharacters]);
+    const parts = renderPrompt('prompt', {
+        storyBeat: storyBeat || "Standard narrative arc.",
+        sceneText,
+        scriptContext: scriptContext.substring(0, 1500) || "None.",
+        characterName,
+        otherCharacters: otherCharacters.join(', ') || 'none',
+        sceneBible: formatBibleEntries(sceneEntries),
+        visualAnalysis,
+        style,
+    });
 
-    try {
-        const response = await ai.models.generateContent({
-            model: "gemini-3-pro-preview",
-            contents: prompt,
-        });
-        return response.text?.trim() || "Masterpiece film frame, cinematic lighting, ultra-detailed characters.";
-    } catch (error) {
-        return "Cinematic film frame, professional lighting.";
-    }
+    const response = await generate('prompt', parts, { frame });
+    return requireText('prompt', response.text);
+}
+
+/** One person to replace: who, where in the frame, and the identity image. */
+export interface IdentitySource {
+    characterName: string;
+    position: ScreenPosition;
+    avatar: { data: string; mimeType: string };
 }
 
 /**
- * Core revision: Aggressive Subject replacement using 2.5 Flash Image.
+ * Core revision: Aggressive Subject replacement using the configured image model.
+ * The first identity is the subject; each further one is added with its position.
+ * @throws ModelCallError when the call fails or no image comes back.
  */
 export async function generateRevisedImage(
     prompt: string,
-    avatarBase64: string | null,
-    avatarMime: string | null,
+    identities: IdentitySource[],
     sceneBase64: string,
     sceneMime: string,
-    aspectRatio: '1:1' | '16:9' | '9:16' | '4:3' | '3:4' = '16:9'
-): Promise<{ imageBase64: string | null }> {
-    const parts: any[] = [];
-    
-    if (avatarBase64 && avatarMime) {
-        // Interleaved, unambiguous instructions for the identity transplant.
-        parts.push({ text: `[PROMPT] ${prompt}` });
-        parts.push({ text: `\n\n[INSTRUCTION] This is an IDENTITY TRANSPLANT. Use the AVATAR image as the *only* source for the person's identity. Use the SCENE image for pose, lighting, and composition. Replace the person in the SCENE with the person from the AVATAR.` });
-        parts.push({ text: `\n\nAVATAR (Identity Source):` });
-        parts.push({ inlineData: { data: avatarBase64, mimeType: avatarMime } });
-        parts.push({ text: `\n\nSCENE (Composition Source):` });
-        parts.push({ inlineData: { data: sceneBase64, mimeType: sceneMime } });
-    } else {
-        // Fallback for when no avatar is provided.
-        const instruction = `TASK: CINEMATIC RE-RENDER.
-           - Enhance the following image based on this style: ${prompt}
-           - OUTPUT: A single, high-fidelity, color film frame.`;
-        parts.push({ text: instruction });
-        parts.push({ inlineData: { data: sceneBase64, mimeType: sceneMime } });
+    aspectRatio: AspectRatio = '16:9',
+    frame?: string
+): Promise<{ imageBase64: string }> {
+    const sceneImage = { image: { data: sceneBase64, mimeType: sceneMime } };
+    const [subject, ...others] = identities;
+    // Interleaved, unambiguous instructions for the identity transplant; a plain re-render when there is no avatar.
+    const parts = subject
+        ? renderPrompt('image', {
+            prompt,
+            characterName: subject.characterName,
+            subjectPosition: describePosition(subject.position),
+            avatarImage: { image: subject.avatar },
+            castImages: {
+                parts: others.flatMap(other => renderPrompt('identity', {
+                    characterName: other.characterName,
+                    position: describePosition(other.position),
+                    avatarImage: { image: other.avatar },
+                })),
+            },
+            sceneImage,
+        })
+        : renderPrompt('imageNoAvatar', { prompt, sceneImage });
+
+    const response = await generate('image', parts, { aspectRatio, frame });
+    if (!response.imageBase64) {
+        throw new ModelCallError('image', "Model returned no image.");
     }
-    
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts },
-            config: { imageConfig: { aspectRatio } },
-        });
-
-        let imageBase64: string | null = null;
-        const partsOut = response.candidates?.[0]?.content?.parts;
-        if (partsOut) {
-            for (const p of partsOut) {
-                if (p.inlineData?.data) {
-                    imageBase64 = p.inlineData.data;
-                    break;
-                }
-            }
-        }
-        return { imageBase64 };
-    } catch (error) {
-        console.error("Revision Error:", error);
-        return { imageBase64: null };
+    return { imageBase64: response.imageBase64 };
+}
+
+/**
+ * Speaks one line of dialogue in a character's voice. `direction` carries the
+ * script's parentheticals and steers delivery.
+ * @throws ModelCallError when the model returns no audio.
+ */
+export async function generateDialogueAudio(
+    line: string,
+    direction: string,
+    voice: string,
+    voiceDescription: string,
+): Promise<{ data: string; mimeType: string }> {
+    const parts = renderPrompt('voice', {
+        voiceDescription: voiceDescription || 'natural, unremarkable',
+        direction: direction || 'as written',
+        line,
+    });
+
+    const response = await generate('voice', parts, { voice, inputs: { line } });
+    if (!response.audio?.data) {
+        throw new ModelCallError('voice', "Model returned no audio.");
+    }
+    return response.audio;
+}
+
+/**
+ * Asks the vision model whether the generated frame shows the avatar's person.
+ * @throws ModelCallError when the verdict is missing or malformed.
+ */
+export async function verifyIdentity(
+    avatarBase64: string,
+    avatarMime: string,
+    outputBase64: string,
+    characterName: string,
+    frame?: string,
+): Promise<{ score: number; reasoning: string }> {
+    const parts = renderPrompt('verify', {
+        characterName,
+        avatarImage: { image: { data: avatarBase64, mimeType: avatarMime } },
+        outputImage: { image: { data: outputBase64, mimeType: 'image/png' } },
+    });
+    const response = await generate('verify', parts, { json: true, frame });
+    const verdict = parseJson<{ identityScore?: unknown; reasoning?: unknown }>('verify', response.text);
+    const score = Number(verdict.identityScore);
+    if (!Number.isFinite(score)) {
+        throw new ModelCallError('verify', "Verdict has no identityScore.");
     }
+    return { score: Math.min(1, Math.max(0, score)), reasoning: String(verdict.reasoning || '') };
 }
@@ -0,0 +1,85 @@
+import { AnalyzedCharacter, CastMapping, IdentityAssignment, ScreenPosition, SourceImage } from '../types';
+import { avatarForCharacter, normalizeName, ResolvedCast } from './castService';
+
+/**
+ * Several identities per frame. The subject comes first and keeps the cast
+ * table's resolution; everyone else on screen gets their pinned avatar, or
+ * the bible's, and a position so the image model knows which person is whom.
+ */
+
+export const NAMED_POSITIONS = ['auto', 'left', 'center', 'right', 'foreground', 'background'] as const;
+
+export const isBox = (position: ScreenPosition): position is Exclude<ScreenPosition, string> => typeof position === 'object';
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Reads a position from model output or a saved plan; anything unrecognised is 'auto'. */
+export function parsePosition(value: unknown): ScreenPosition {
+    if (typeof value === 'string') {
+        const named = NAMED_POSITIONS.find(p => p === value.trim().toLowerCase());
+        return named || 'auto';
+    }
+    if (value && typeof value === 'object') {
+        const { x, y, width, height } = value as Record<string, unknown>;
+        if ([x, y, width, height].every(v => typeof v === 'number' && Number.isFinite(v)) && (width as number) > 0 && (height as number) > 0) {
+            const left = clamp01(x as number);
+            const top = clamp01(y as number);
+            return { x: left, y: top, width: Math.min(width as number, 1 - left), height: Math.min(height as number, 1 - top) };
+        }
+    }
+    return 'auto';
+}
+
+const pct = (value: number) => Math.round(value * 100);
+
+/** Wording for the image prompt: "the person on the left", "the person inside the box …". */
+export function describePosition(position: ScreenPosition): string {
+    if (isBox(position)) {
+        return `inside the box from ${pct(position.x)}% across, ${pct(position.y)}% down to ${pct(position.x + position.width)}% across, ${pct(position.y + position.height)}% down (measured from the top-left of the frame)`;
+    }
+    switch (position) {
+        case 'left': return 'on the left';
+        case 'center': return 'in the centre';
+        case 'right': return 'on the right';
+        case 'foreground': return 'in the foreground';
+        case 'background': return 'in the background';
+        default: return 'who best matches the description';
+    }
+}
+
+export const formatPosition = (position: ScreenPosition) =>
+    isBox(position) ? `box(${pct(position.x)},${pct(position.y)},${pct(position.width)},${pct(position.height)})%` : position;
+
+/** "Bob = bob.png @left; Ann = NONE @box(…)" for metadata. */
+export const formatIdentities = (identities: IdentityAssignment[]) =>
+    identities.map(i => `${i.characterName} = ${i.avatarFilename || 'NONE'} @${formatPosition(i.position)}`).join('; ');
+
+/**
+ * The frame's identity list: the resolved subject, then the other characters
+ * the model saw, each once. Positions come from the model's on-screen list.
+ */
+export function buildFrameIdentities(
+    subject: ResolvedCast,
+    otherCharacters: string[],
+    onScreen: { characterName: string; position: ScreenPosition }[],
+    cast: CastMapping,
+    bible: AnalyzedCharacter[],
+    avatars: Record<string, SourceImage>,
+): IdentityAssignment[] {
+    const positionOf = (name: string) => onScreen.find(o => normalizeName(o.characterName) === normalizeName(name))?.position || 'auto';
+    const identities: IdentityAssignment[] = [
+        { characterName: subject.characterName, avatarFilename: subject.avatarFilename, position: positionOf(subject.characterName) },
+    ];
+    const seen = new Set([normalizeName(subject.characterName)]);
+    for (const name of [...onScreen.map(o => o.characterName), ...otherCharacters]) {
+        const key = normalizeName(name);
+        if (!key || seen.has(key) || key === 'unknown') continue;
+        seen.add(key);
+        identities.push({ characterName: name.trim(), avatarFilename: avatarForCharacter(cast, bible, name, avatars), position: positionOf(name) });
+    }
+    return identities;
+}
+
+/** Identities for items saved before multi-character support: just the subject. */
+export const identitiesOf = (item: { characterName: string; avatarFilename: string | null; identities?: IdentityAssignment[] }): IdentityAssignment[] =>
+    item.identities?.length ? item.identities : [{ characterName: item.characterName, avatarFilename: item.avatarFilename, position: 'auto' }];
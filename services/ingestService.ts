@@ -0,0 +1,439 @@
+import JSZip from 'jszip';
+import { Script, SourceImage, TextFile } from '../types';
+import { bytesToBase64 } from './audioService';
+import { IngestError } from './errors';
+import { logEvent } from './logService';
+import { isPromptTemplateFile, loadPromptTemplates } from './promptTemplateService';
+import { isScreenplayFile, parseScreenplay, SCREENPLAY_EXTENSIONS } from './screenplayService';
+import { buildIngestReport, compareFrameNames, IngestReport } from './sidecarService';
+import { parseStoryMap, StoryStructure } from './storyService';
+
+/**
+ * Archive ingest, shared by the browser upload and the command line. The
+ * `avatars` archive supplies identity images (plus any screenplay or prompt
+ * templates it carries); the `processed` archive supplies the frames, their
+ * sidecars, `story.txt` and `style.txt`.
+ *
+ * A source is a ZIP or a plain folder. Its role comes from a `manifest.json`
+ * at its root, otherwise from its name; whatever neither assigns is left for
+ * the operator. Nested ZIPs are unpacked in place, within fixed limits so a
+ * zip bomb is rejected before it fills memory.
+ */
+
+export type ArchiveRole = 'avatars' | 'processed';
+
+export const ARCHIVE_ROLES: ArchiveRole[] = ['avatars', 'processed'];
+
+export type ArchiveSource =
+    | { kind: 'zip'; name: string; data: ArrayBuffer | Uint8Array | Blob }
+    /** Files of a dropped folder, with paths relative to the folder. */
+    | { kind: 'folder'; name: string; files: { path: string; file: Blob }[] };
+
+/**
+ * `manifest.json` at the root of a source:
+ * `{ "role": "processed", "folders": { "cast": "avatars", "extra.zip": "avatars" } }`.
+ * `folders` keys are paths of folders or nested ZIPs; the longest match wins,
+ * and `role` covers everything else.
+ */
+export interface ArchiveManifest {
+    role?: ArchiveRole;
+    folders?: Record<string, ArchiveRole>;
+}
+
+export const ARCHIVE_MANIFEST = 'manifest.json';
+
+export interface IngestLimits {
+    /** File entries per source, counting those inside nested ZIPs. */
+    maxEntries: number;
+    maxEntryBytes: number;
+    /** Unpacked bytes per source. */
+    maxTotalBytes: number;
+    /** ZIPs inside ZIPs; 1 allows one level of nesting. */
+    maxDepth: number;
+}
+
+export const DEFAULT_INGEST_LIMITS: IngestLimits = {
+    maxEntries: 10000,
+    maxEntryBytes: 100 * 1024 * 1024,
+    maxTotalBytes: 1024 * 1024 * 1024,
+    maxDepth: 3,
+};
+
+export interface ArchiveContents {
+    images: Record<string, SourceImage>;
+    texts: TextFile[];
+}
+
+/** Entries with the same path; the first is kept. */
+export interface DuplicateEntry {
+    name: string;
+    /** Where each copy came from, e.g. `processed.zip › part2.zip`. */
+    sources: string[];
+}
+
+export interface OpenedArchive {
+    name: string;
+    /** True when a role manifest was found. */
+    manifest: boolean;
+    contents: Record<ArchiveRole, ArchiveContents>;
+    /** Entries neither the manifest nor the name assigns; the operator gives them a role or leaves them out. */
+    unassigned: ArchiveContents;
+    duplicates: DuplicateEntry[];
+}
+
+export interface IngestedArchives {
+    avatars: Record<string, SourceImage>;
+    processedImages: Record<string, SourceImage>;
+    textFiles: TextFile[];
+    report: IngestReport;
+    /** Same-named entries from different places, across every source. */
+    duplicates: DuplicateEntry[];
+    /** hs4000.txt rebuilt from the sidecars' first scene lines, in frame order. */
+    fullScript: TextFile;
+    screenplay: { name: string; script: Script } | null;
+    storyMap: TextFile | null;
+    /** `story.txt` parsed into acts and beats; null without one or when it holds no beats. */
+    story: StoryStructure | null;
+    /** Content of `style.txt`, when the archive has one. */
+    style: string | null;
+}
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp'];
+const TEXT_EXTENSIONS = ['txt', 'md', ...SCREENPLAY_EXTENSIONS];
+
+const extensionOf = (path: string) => path.toLowerCase().split('.').pop() || '';
+
+const megabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+/** The role an uploaded file or folder plays, from its name; null for anything else. */
+export function archiveRole(fileName: string): ArchiveRole | null {
+    const name = fileName.toLowerCase();
+    if (name.includes('avatars')) return 'avatars';
+    if (name.includes('processed')) return 'processed';
+    return null;
+}
+
+export const isArchiveFile = (fileName: string) => extensionOf(fileName) === 'zip';
+
+const emptyContents = (): ArchiveContents => ({ images: {}, texts: [] });
+
+export const countContents = (contents: ArchiveContents) => Object.keys(contents.images).length + contents.texts.length;
+
+/**
+ * Reads a role manifest. Null when the JSON declares no roles, so a
+ * production run's own manifest.json is not mistaken for one.
+ * @throws IngestError when the file is not JSON or names an unknown role.
+ */
+export function parseArchiveManifest(archive: string, content: string): ArchiveManifest | null {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(content);
+    } catch {
+        throw new IngestError(archive, `${ARCHIVE_MANIFEST} IS NOT VALID JSON.`);
+    }
+    const { role, folders } = (raw && typeof raw === 'object' ? raw : {}) as { role?: unknown; folders?: unknown };
+    if (role === undefined && folders === undefined) return null;
+
+    const checkRole = (value: unknown, where: string): ArchiveRole => {
+        if (!ARCHIVE_ROLES.includes(value as ArchiveRole)) {
+            throw new IngestError(archive, `${ARCHIVE_MANIFEST}: ${where} MUST BE ${ARCHIVE_ROLES.map(r => `"${r}"`).join(' OR ')}, NOT ${JSON.stringify(value)}.`);
+        }
+        return value as ArchiveRole;
+    };
+    const manifest: ArchiveManifest = {};
+    if (role !== undefined) manifest.role = checkRole(role, 'ROLE');
+    if (folders !== undefined) {
+        if (!folders || typeof folders !== 'object' || Array.isArray(folders)) {
+            throw new IngestError(archive, `${ARCHIVE_MANIFEST}: FOLDERS MUST MAP PATHS TO ROLES.`);
+        }
+        manifest.folders = Object.fromEntries(Object.entries(folders).map(([path, value]) =>
+            [path.replace(/^\.?\/+|\/+$/g, ''), checkRole(value, `FOLDERS["${path}"]`)]));
+    }
+    return manifest;
+}
+
+/** Role for a root-level path: the longest matching manifest folder, then the manifest role, then the fallback. */
+function roleForPath(path: string, manifest: ArchiveManifest | null, fallback: ArchiveRole | null): ArchiveRole | null {
+    const folder = Object.keys(manifest?.folders || {})
+        .filter(prefix => path === prefix || path.startsWith(`${prefix}/`))
+        .sort((a, b) => b.length - a.length)[0];
+    return folder ? manifest!.folders![folder] : manifest?.role ?? fallback;
+}
+
+interface RawEntry {
+    path: string;
+    /** Null when the entry is bigger than `limit` bytes; reading stops there. */
+    read(limit: number): Promise<Uint8Array | null>;
+}
+
+// JSZip documents internalStream but does not declare it.
+type StreamableZipObject = JSZip.JSZipObject & { internalStream(type: 'uint8array'): JSZip.JSZipStreamHelper<Uint8Array> };
+
+/** Inflates an entry chunk by chunk, giving up as soon as it passes `limit`. */
+function readZipEntry(entry: JSZip.JSZipObject, limit: number): Promise<Uint8Array | null> {
+    return new Promise((resolve, reject) => {
+        const chunks: Uint8Array[] = [];
+        let size = 0;
+        const stream = (entry as StreamableZipObject).internalStream('uint8array');
+        stream
+            .on('data', chunk => {
+                size += chunk.length;
+                if (size > limit) {
+                    stream.pause();
+                    resolve(null);
+                    return;
+                }
+                chunks.push(chunk);
+            })
+            .on('error', reject)
+            .on('end', () => {
+                const bytes = new Uint8Array(size);
+                let offset = 0;
+                chunks.forEach(chunk => {
+                    bytes.set(chunk, offset);
+                    offset += chunk.length;
+                });
+                resolve(bytes);
+            })
+            .resume();
+    });
+}
+
+async function zipEntries(data: ArrayBuffer | Uint8Array | Blob): Promise<RawEntry[]> {
+    const zip = await JSZip.loadAsync(data);
+    return Object.values(zip.files)
+        .filter(entry => !entry.dir)
+        .map(entry => ({ path: entry.name, read: limit => readZipEntry(entry, limit) }));
+}
+
+const folderEntries = (files: { path: string; file: Blob }[]): RawEntry[] => files.map(({ path, file }) => ({
+    path,
+    read: async limit => (file.size > limit ? null : new Uint8Array(await file.arrayBuffer())),
+}));
+
+/**
+ * Unpacks one source into role buckets. `fallbackRole` applies where there is
+ * no manifest; it defaults to the role the source's name suggests.
+ * @throws IngestError when the source breaks a limit or its manifest is invalid.
+ */
+export async function openArchive(
+    source: ArchiveSource,
+    fallbackRole: ArchiveRole | null = archiveRole(source.name),
+    limits: IngestLimits = DEFAULT_INGEST_LIMITS,
+): Promise<OpenedArchive> {
+    const opened: OpenedArchive = {
+        name: source.name,
+        manifest: false,
+        contents: { avatars: emptyContents(), processed: emptyContents() },
+        unassigned: emptyContents(),
+        duplicates: [],
+    };
+    const seen = new Map<ArchiveContents, Map<string, DuplicateEntry>>();
+    let entryCount = 0;
+    let totalBytes = 0;
+
+    const read = async (entry: RawEntry): Promise<Uint8Array> => {
+        const remaining = limits.maxTotalBytes - totalBytes;
+        const bytes = await entry.read(Math.min(limits.maxEntryBytes, remaining));
+        if (!bytes) {
+            throw new IngestError(source.name, remaining < limits.maxEntryBytes
+                ? `UNPACKS TO MORE THAN ${megabytes(limits.maxTotalBytes)}. REFUSING A POSSIBLE ZIP BOMB.`
+                : `${entry.path} IS LARGER THAN ${megabytes(limits.maxEntryBytes)}.`);
+        }
+        totalBytes += bytes.length;
+        return bytes;
+    };
+
+    const countEntries = (entries: RawEntry[]) => {
+        entryCount += entries.length;
+        if (entryCount > limits.maxEntries) {
+            throw new IngestError(source.name, `HOLDS MORE THAN ${limits.maxEntries} FILES. REFUSING A POSSIBLE ZIP BOMB.`);
+        }
+    };
+
+    /** Files each path once per bucket; later copies are reported, not kept. */
+    const claim = (bucket: ArchiveContents, path: string, from: string) => {
+        const paths = seen.get(bucket) ?? new Map<string, DuplicateEntry>();
+        seen.set(bucket, paths);
+        const earlier = paths.get(path);
+        if (!earlier) {
+            paths.set(path, { name: path, sources: [from] });
+            return true;
+        }
+        if (earlier.sources.length === 1) opened.duplicates.push(earlier);
+        earlier.sources.push(from);
+        return false;
+    };
+
+    const collect = async (entries: RawEntry[], from: string, depth: number, inherited: ArchiveRole | null | undefined, manifest: ArchiveManifest | null) => {
+        countEntries(entries);
+        for (const entry of entries) {
+            const ext = extensionOf(entry.path);
+            const role = inherited !== undefined ? inherited : roleForPath(entry.path, manifest, fallbackRole);
+            const bucket = role ? opened.contents[role] : opened.unassigned;
+
+            if (ext === 'zip') {
+                if (depth >= limits.maxDepth) {
+                    throw new IngestError(source.name, `${from} › ${entry.path} IS NESTED MORE THAN ${limits.maxDepth} ZIPS DEEP.`);
+                }
+                // Everything in a nested ZIP takes the role of the ZIP itself.
+                await collect(await zipEntries(await read(entry)), `${from} › ${entry.path}`, depth + 1, role, null);
+            } else if (IMAGE_EXTENSIONS.includes(ext)) {
+                if (!claim(bucket, entry.path, from)) continue;
+                bucket.images[entry.path] = { fileName: entry.path, base64: bytesToBase64(await read(entry)), mimeType: `image/${ext === 'jpg' ? 'jpeg' : ext}` };
+            } else if (TEXT_EXTENSIONS.includes(ext)) {
+                if (!claim(bucket, entry.path, from)) continue;
+                bucket.texts.push({ name: entry.path, content: new TextDecoder().decode(await read(entry)) });
+            }
+        }
+    };
+
+    let entries: RawEntry[];
+    try {
+        entries = source.kind === 'zip' ? await zipEntries(source.data) : folderEntries(source.files);
+    } catch (err) {
+        throw new IngestError(source.name, `NOT A READABLE ZIP (${err instanceof Error ? err.message : String(err)}).`);
+    }
+    const manifestEntry = entries.find(entry => entry.path === ARCHIVE_MANIFEST);
+    const manifest = manifestEntry ? parseArchiveManifest(source.name, new TextDecoder().decode(await read(manifestEntry))) : null;
+    opened.manifest = manifest !== null;
+    await collect(entries.filter(entry => entry !== manifestEntry), source.name, 0, undefined, manifest);
+    return opened;
+}
+
+/** Moves an archive's unassigned entries into `role`, or drops them when `role` is null. */
+export function assignRole(archive: OpenedArchive, role: ArchiveRole | null): OpenedArchive {
+    if (!role) return { ...archive, unassigned: emptyContents() };
+    const target = archive.contents[role];
+    return {
+        ...archive,
+        contents: {
+            ...archive.contents,
+            [role]: { images: { ...archive.unassigned.images, ...target.images }, texts: [...target.texts, ...archive.unassigned.texts] },
+        },
+        unassigned: emptyContents(),
+    };
+}
+
+/** Merges opened sources and gathers everything a run needs, logging what was found. Unassigned entries are left out. */
+export async function ingestArchives(archives: OpenedArchive[]): Promise<IngestedArchives> {
+    const avatars: Record<string, SourceImage> = {};
+    const processedImages: Record<string, SourceImage> = {};
+    let textFiles: TextFile[] = [];
+    const duplicates: DuplicateEntry[] = archives.flatMap(archive => archive.duplicates.map(d => ({ ...d, sources: [...d.sources] })));
+    const owners = new Map<string, string>();
+
+    /** Like openArchive's check, across sources: the first source to supply a path keeps it. */
+    const keep = (role: ArchiveRole, path: string, archive: string) => {
+        const key = `${role}:${path}`;
+        const owner = owners.get(key);
+        if (owner === undefined) {
+            owners.set(key, archive);
+            return true;
+        }
+        const known = duplicates.find(d => d.name === path && d.sources.includes(owner));
+        if (known) known.sources.push(archive);
+        else duplicates.push({ name: path, sources: [owner, archive] });
+        return false;
+    };
+
+    for (const archive of archives) {
+        if (countContents(archive.unassigned) > 0) {
+            logEvent('warn', `${archive.name}: ${countContents(archive.unassigned)} FILES WITHOUT A ROLE LEFT OUT.`);
+        }
+        const { avatars: cast, processed } = archive.contents;
+        Object.entries(cast.images).forEach(([path, image]) => {
+            if (keep('avatars', path, archive.name)) avatars[path] = image;
+        });
+        Object.entries(processed.images).forEach(([path, image]) => {
+            if (keep('processed', path, archive.name)) processedImages[path] = image;
+        });
+        // Screenplays and prompt templates are picked up from whichever archive carries them.
+        const texts = [...cast.texts.filter(t => isScreenplayFile(t.name) || isPromptTemplateFile(t.name)), ...processed.texts];
+        textFiles = [...textFiles, ...texts.filter(t => keep('processed', t.name, archive.name))];
+    }
+    duplicates.forEach(d => logEvent('warn', `DUPLICATE ENTRY ${d.name}: KEPT THE COPY FROM ${d.sources[0]}, IGNORED ${d.sources.slice(1).join(', ')}.`));
+
+    const report = buildIngestReport(Object.keys(processedImages), textFiles);
+    const fullScript: TextFile = {
+        name: 'hs4000.txt',
+        content: Object.keys(processedImages).sort(compareFrameNames)
+            .map(imageKey => report.sidecars[imageKey]?.scriptLine)
+            .filter(Boolean)
+            .join('\n'),
+    };
+    logEvent('info', "RECONSTRUCTED: hs4000.txt");
+
+    const templateOverrides = loadPromptTemplates(textFiles);
+    templateOverrides.problems.forEach(problem => logEvent('error', `PROMPT TEMPLATE ERROR: ${problem}`));
+    templateOverrides.templates.forEach(t => logEvent('info', `PROMPT TEMPLATE OVERRIDE: ${t.name}@${t.version}`));
+
+    const screenplayFiles = textFiles.filter(t => isScreenplayFile(t.name)).sort((a, b) => a.name.localeCompare(b.name));
+    let screenplay: IngestedArchives['screenplay'] = null;
+    if (screenplayFiles.length > 0) {
+        const file = screenplayFiles[0];
+        screenplay = { name: file.name, script: parseScreenplay(file) };
+        logEvent('info', `IMPORTED SCREENPLAY: ${file.name} (${screenplay.script.scene_elements.length} ELEMENTS)`);
+        if (screenplayFiles.length > 1) {
+            logEvent('warn', `${screenplayFiles.length} SCREENPLAYS FOUND; USING ${file.name}.`);
+        }
+    }
+
+    const storyMap = textFiles.find(t => t.name.toLowerCase() === 'story.txt') || null;
+    const story = storyMap && parseStoryMap(storyMap.content);
+    if (story) logEvent('info', `STORY MAP: ${story.acts.length} ACTS, ${story.beats.length} BEATS`);
+    else if (storyMap) logEvent('warn', "STORY MAP HAS NO BEATS; PROMPTS GET NO STORY CONTEXT.");
+
+    return {
+        avatars,
+        processedImages,
+        textFiles,
+        report,
+        duplicates,
+        fullScript,
+        screenplay,
+        storyMap,
+        story,
+        style: textFiles.find(t => t.name.toLowerCase() === 'style.txt')?.content ?? null,
+    };
+}
+
+/** Reads every file under a dropped directory, with paths relative to it. */
+async function readDirectory(directory: FileSystemDirectoryEntry, prefix = ''): Promise<{ path: string; file: Blob }[]> {
+    const reader = directory.createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries hands back directories in batches until it returns an empty one.
+    for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) break;
+        children.push(...batch);
+    }
+    const files: { path: string; file: Blob }[] = [];
+    for (const child of children) {
+        if (child.isDirectory) {
+            files.push(...await readDirectory(child as FileSystemDirectoryEntry, `${prefix}${child.name}/`));
+        } else {
+            const file = await new Promise<File>((resolve, reject) => (child as FileSystemFileEntry).file(resolve, reject));
+            files.push({ path: `${prefix}${child.name}`, file });
+        }
+    }
+    return files;
+}
+
+/** Sources from a drag-and-drop: dropped folders as folders, ZIPs as archives. Other files are ignored. */
+export async function sourcesFromDrop(dataTransfer: DataTransfer): Promise<ArchiveSource[]> {
+    // Entries must be taken synchronously; the DataTransfer is emptied once the handler yields.
+    const entries = Array.from(dataTransfer.items)
+        .map(item => item.webkitGetAsEntry())
+        .filter((entry): entry is FileSystemEntry => entry !== null);
+    const sources: ArchiveSource[] = [];
+    for (const entry of entries) {
+        if (entry.isDirectory) {
+            sources.push({ kind: 'folder', name: entry.name, files: await readDirectory(entry as FileSystemDirectoryEntry) });
+        } else if (isArchiveFile(entry.name)) {
+            const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+            sources.push({ kind: 'zip', name: file.name, data: file });
+        }
+    }
+    return sources;
+}
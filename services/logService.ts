@@ -0,0 +1,100 @@
+import { ModelCallError } from './errors';
+import { ModelStage } from './providers';
+import { RunStage } from '../types';
+
+/**
+ * Structured run log. Every event carries a level, the run stage it happened
+ * in and, where it applies, the frame, the model call and its duration, and
+ * the error. The console filters these; the JSONL export is the same events,
+ * one per line, for bug reports and comparing runs.
+ */
+
+/** In increasing severity; `success` ranks with `info` and only changes how the line is shown. */
+export const LOG_LEVELS = ['debug', 'info', 'success', 'warn', 'error'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export interface ModelCallInfo {
+    stage: ModelStage;
+    model: string;
+    inputTokens?: number;
+    outputTokens?: number;
+}
+
+export interface LogErrorDetails {
+    name: string;
+    message: string;
+    /** Model stage that failed, for ModelCallError. */
+    modelStage?: ModelStage;
+    transient?: boolean;
+    cause?: string;
+}
+
+export interface LogEvent {
+    seq: number;
+    /** ISO timestamp. */
+    time: string;
+    level: LogLevel;
+    message: string;
+    stage: RunStage;
+    frame?: string;
+    call?: ModelCallInfo;
+    durationMs?: number;
+    error?: LogErrorDetails;
+}
+
+export type LogDetails = Partial<Pick<LogEvent, 'frame' | 'call' | 'durationMs' | 'error'>>;
+
+export type LogListener = (event: LogEvent) => void;
+
+let events: LogEvent[] = [];
+let runStage: RunStage = 'IDLE';
+let logListener: LogListener | null = null;
+
+/** Events logged from here on are tagged with this stage. */
+export function setLogStage(stage: RunStage) {
+    runStage = stage;
+}
+
+export function setLogListener(listener: LogListener | null) {
+    logListener = listener;
+}
+
+export function logEvent(level: LogLevel, message: string, details: LogDetails = {}): LogEvent {
+    const event: LogEvent = { seq: events.length, time: new Date().toISOString(), level, message, stage: runStage, ...details };
+    events.push(event);
+    logListener?.(event);
+    return event;
+}
+
+export function getLogEvents(): LogEvent[] {
+    return events;
+}
+
+/** Replaces the log, e.g. with a checkpoint's events followed by this session's. Sequence numbers are reassigned. */
+export function resetLog(restored: LogEvent[] = []) {
+    events = restored.map((event, seq) => ({ ...event, seq }));
+}
+
+export function errorDetails(error: unknown): LogErrorDetails {
+    if (error instanceof ModelCallError) {
+        return {
+            name: error.name,
+            message: error.message,
+            modelStage: error.stage,
+            transient: error.transient,
+            ...(error.cause !== undefined ? { cause: error.cause instanceof Error ? error.cause.message : String(error.cause) } : {}),
+        };
+    }
+    if (error instanceof Error) return { name: error.name, message: error.message };
+    return { name: 'Error', message: String(error) };
+}
+
+export const levelRank = (level: LogLevel) => (level === 'success' ? LOG_LEVELS.indexOf('info') : LOG_LEVELS.indexOf(level));
+
+/** Events at or above `minLevel`, optionally for one frame only. */
+export function filterEvents(list: LogEvent[], minLevel: LogLevel, frame?: string | null): LogEvent[] {
+    const floor = levelRank(minLevel);
+    return list.filter(event => levelRank(event.level) >= floor && (!frame || event.frame === frame));
+}
+
+export const toJsonl = (list: LogEvent[]) => list.map(event => JSON.stringify(event)).join('\n') + (list.length > 0 ? '\n' : '');
@@ -0,0 +1,547 @@
+import { AnalyzedCharacter, CastMapping, ConsistencyScore, FrameUsage, IdentityAssignment, RejuvenatedItem, RunStage, Script, SourceImage, TextFile } from '../types';
+import { analyzeSceneImage, createCharacterBible, generateRejuvenatedPrompt, generateRevisedImage, identifyConsistentCharacter, IdentitySource } from './geminiService';
+import { EMPTY_CAST, extractCharacterCandidates, resolveAvatarKey, resolveFrameCast } from './castService';
+import { ConsistencySettings, DEFAULT_CONSISTENCY_SETTINGS, formatConsistency, neighbourOutputs, scoreFrame } from './consistencyService';
+import { describeError } from './errors';
+import { deliveredNames } from './exportService';
+import { aspectRatioFor, DEFAULT_FRAME_FORMAT, FitMode, FrameFormat, ImageSize, measureImage } from './frameFormatService';
+import { buildFrameIdentities, formatIdentities, identitiesOf } from './identityService';
+import { IngestedArchives, ingestArchives, OpenedArchive } from './ingestService';
+import { logEvent, setLogStage } from './logService';
+import { FramePlan } from './planService';
+import { configurePromptTemplates, loadPromptTemplates, templateLabel } from './promptTemplateService';
+import { RunControl, setActiveRun } from './runControl';
+import { mapConcurrent } from './scheduler';
+import { sceneContext, scriptToText } from './screenplayService';
+import { compareFrameNames, countIngestIssues, IngestReport } from './sidecarService';
+import { alignFramesToBeats, beatLabel, findBeat, formatBeat, StoryStructure } from './storyService';
+import { DEFAULT_BASE_STYLE, DEFAULT_STYLE_LIBRARY, resolveFrameStyle, StyleLibrary } from './styleService';
+import { averageFrameCost, formatCost, formatTokens, frameUsage, getCostSettings, summarizeUsage, wouldExceedBudget } from './usageService';
+
+/**
+ * The production pipeline without a UI: bible, per-frame planning and image
+ * generation over a fixed set of run inputs. The console and the command line
+ * both drive it; progress comes back as events and through the event log.
+ */
+
+export interface PipelineContext {
+    avatars: Record<string, SourceImage>;
+    processedImages: Record<string, SourceImage>;
+    report: IngestReport;
+    bible: AnalyzedCharacter[];
+    cast: CastMapping;
+    style: string;
+    styles: StyleLibrary;
+    frameFormat: FrameFormat;
+    consistency: ConsistencySettings;
+    fullScript: TextFile | null;
+    screenplay: { name: string; script: Script } | null;
+    /** story.txt as acts and beats; null when there is none. */
+    story: StoryStructure | null;
+    /** Beat id per frame: the automatic alignment with any corrections applied. */
+    beats: Record<string, string>;
+    /** Conforms output to the source's pixel size; null where there is no canvas, e.g. in Node. */
+    conform: ((imageBase64: string, size: ImageSize, fit: FitMode) => Promise<string>) | null;
+}
+
+export type PipelineEvent =
+    | { type: 'stage'; stage: RunStage }
+    | { type: 'bible'; bible: AnalyzedCharacter[]; cast: CastMapping }
+    | { type: 'frame-started'; frame: string; index: number; total: number }
+    | { type: 'frame-ended'; frame: string }
+    | { type: 'frame-planned'; plan: FramePlan; done: number; total: number }
+    | { type: 'frame-result'; item: RejuvenatedItem };
+
+export type PipelineListener = (event: PipelineEvent) => void;
+
+/** Source frames in filename order. */
+export const frameImages = (ctx: Pick<PipelineContext, 'processedImages'>) =>
+    (Object.values(ctx.processedImages) as SourceImage[]).sort((a, b) => compareFrameNames(a.fileName, b.fileName));
+
+/** Delivered names over every source frame, so results and exports agree whichever frames an export holds. */
+export const outputNames = (ctx: Pick<PipelineContext, 'processedImages'>) => deliveredNames(Object.keys(ctx.processedImages));
+
+export const styleFor = (ctx: PipelineContext, frame: string) =>
+    resolveFrameStyle(ctx.styles, frame, Object.keys(ctx.processedImages).sort(compareFrameNames), ctx.report.sidecars[frame]?.tags || [], ctx.style);
+
+/** How many scenes either side of a frame its prompt sees when there is no screenplay scene to quote. */
+const NEIGHBOUR_SCENES = 1;
+
+/** Script context for a frame's prompt: its screenplay scene, or else the sidecar scenes of the frames around it. */
+function scriptContextFor(ctx: PipelineContext, frame: string, sceneText: string) {
+    const scene = ctx.screenplay ? sceneContext(ctx.screenplay.script, sceneText) : '';
+    if (scene) return scene;
+    const frames = frameImages(ctx).map(img => img.fileName);
+    const index = frames.indexOf(frame);
+    const around = (from: number, to: number, label: string) => frames.slice(Math.max(0, from), Math.max(0, to))
+        .flatMap(name => ctx.report.sidecars[name] ? [`${label} (${name}): ${ctx.report.sidecars[name].body}`] : []);
+    return [...around(index - NEIGHBOUR_SCENES, index, 'PREVIOUS'), ...around(index + 1, index + 1 + NEIGHBOUR_SCENES, 'NEXT')].join('\n');
+}
+
+/** Beat alignment for a fresh run: frames in order against the story's beats. */
+export const alignStory = (ctx: Pick<PipelineContext, 'processedImages' | 'report' | 'story'>) =>
+    (ctx.story ? alignFramesToBeats(frameImages(ctx).map(img => img.fileName), ctx.report.sidecars, ctx.story) : {});
+
+/**
+ * Builds the character bible from the full script (an imported screenplay, or
+ * the reconstructed hs4000.txt) and the cast table it starts from.
+ * @throws Error when there is no script text to work from.
+ */
+export async function analyzeScript(ctx: Pick<PipelineContext, 'avatars' | 'fullScript' | 'screenplay'>): Promise<{ bible: AnalyzedCharacter[]; cast: CastMapping }> {
+    const scriptText = ctx.screenplay ? scriptToText(ctx.screenplay.script) : ctx.fullScript?.content || '';
+    if (scriptText.trim() === '') {
+        throw new Error("GENERATED SCRIPT IS EMPTY. CANNOT CREATE BIBLE.");
+    }
+    logEvent('info', `GENERATING CHARACTER BIBLE FROM ${ctx.screenplay ? ctx.screenplay.name : 'GENERATED SCRIPT'}...`);
+    const bible = await createCharacterBible(Object.keys(ctx.avatars), scriptText);
+    return { bible, cast: { ...EMPTY_CAST, characters: extractCharacterCandidates(bible, Object.keys(ctx.avatars)) } };
+}
+
+export function buildFrameMeta({ originalName, characterName, avatar, identities, stylePreset, beat, prompt, format, sceneData, consistency, templates, usage }: {
+    originalName: string;
+    characterName: string;
+    avatar: string;
+    identities: IdentityAssignment[];
+    stylePreset?: string | null;
+    /** Story beat label, e.g. `2.3 (tense)`. */
+    beat?: string | null;
+    prompt: string;
+    format: string;
+    sceneData: string;
+    consistency?: ConsistencyScore;
+    templates: string[];
+    usage?: FrameUsage;
+}) {
+    return `ORIGINAL: ${originalName}\nCHARACTER: ${characterName}\nAVATAR: ${avatar}\nIDENTITIES: ${formatIdentities(identities)}\nSTYLE: ${stylePreset || 'BASE'}\n`
+        + (beat ? `BEAT: ${beat}\n` : '')
+        + `FORMAT: ${format}\n`
+        + (consistency ? `CONSISTENCY: ${formatConsistency(consistency)}\n` : '')
+        + `TEMPLATES: ${templates.join(', ')}\n`
+        + (usage ? `COST: ${formatCost(usage.cost)} (${formatTokens(usage.inputTokens)} IN / ${formatTokens(usage.outputTokens)} OUT TOKENS)\n` : '')
+        + `PROMPT: ${prompt}\n\nSCENE DATA:\n${sceneData}`;
+}
+
+/** Label of a frame's beat for its metadata; null when the story no longer has it. */
+export function beatOf(ctx: Pick<PipelineContext, 'story'>, id: string | null | undefined) {
+    const beat = findBeat(ctx.story, id);
+    return beat ? beatLabel(beat) : null;
+}
+
+/** The identities that can actually be replaced: those whose avatar is loaded. */
+function identitySources(ctx: PipelineContext, identities: IdentityAssignment[]): IdentitySource[] {
+    return identities.flatMap(identity => {
+        const avatar = identity.avatarFilename ? ctx.avatars[identity.avatarFilename] : null;
+        return avatar ? [{ characterName: identity.characterName, position: identity.position, avatar: { data: avatar.base64, mimeType: avatar.mimeType } }] : [];
+    });
+}
+
+/** Templates behind the image step of a frame: the transplant or re-render, plus the identity check when it ran. */
+export function imageTemplates(ctx: PipelineContext, identities: IdentityAssignment[]) {
+    const replaced = identitySources(ctx, identities).length;
+    return [
+        templateLabel(replaced > 0 ? 'image' : 'imageNoAvatar'),
+        ...(replaced > 1 ? [templateLabel('identity')] : []),
+        ...(replaced > 0 && ctx.consistency.enabled ? [templateLabel('verify')] : []),
+    ];
+}
+
+export function usageOf(originalName: string): FrameUsage | undefined {
+    const totals = frameUsage(originalName);
+    return totals && { inputTokens: totals.inputTokens, outputTokens: totals.outputTokens, cost: totals.cost };
+}
+
+/** Generates at the ratio closest to the source, then conforms the result to the source's pixel size. */
+async function renderFrame(ctx: PipelineContext, prompt: string, identities: IdentitySource[], source: SourceImage) {
+    const size = await measureImage(source.base64, source.mimeType);
+    const aspectRatio = aspectRatioFor(size, ctx.frameFormat);
+    const gen = await generateRevisedImage(prompt, identities, source.base64, source.mimeType, aspectRatio, source.fileName);
+    if (!size || !ctx.conform) {
+        return { imageBase64: gen.imageBase64, format: `${aspectRatio} (${size ? 'NOT CONFORMED' : 'SOURCE SIZE UNKNOWN, NOT CONFORMED'})` };
+    }
+    return {
+        imageBase64: await ctx.conform(gen.imageBase64, size, ctx.frameFormat.fit),
+        format: `${aspectRatio} → ${size.width}x${size.height} (${ctx.frameFormat.fit.toUpperCase()})`,
+    };
+}
+
+/**
+ * renderFrame plus the consistency pass: low-scoring frames are regenerated
+ * up to the configured limit and the best-scoring attempt is kept. Identity is
+ * checked for the first replaced character.
+ */
+export async function renderCheckedFrame(
+    ctx: PipelineContext,
+    prompt: string,
+    identities: IdentityAssignment[],
+    source: SourceImage,
+    finished: RejuvenatedItem[],
+): Promise<{ imageBase64: string; format: string; consistency?: ConsistencyScore }> {
+    const { enabled, maxRegenerations } = ctx.consistency;
+    const sources = identitySources(ctx, identities);
+    const checked = identities.find(i => i.avatarFilename && ctx.avatars[i.avatarFilename]) || identities[0];
+    const avatar = checked?.avatarFilename ? ctx.avatars[checked.avatarFilename] || null : null;
+    let best: { imageBase64: string; format: string; consistency: ConsistencyScore } | null = null;
+    for (let attempt = 1; ; attempt++) {
+        const frame = await renderFrame(ctx, prompt, sources, source);
+        if (!enabled) return frame;
+
+        const consistency = await scoreFrame(frame.imageBase64, checked?.characterName || 'Unknown', avatar, neighbourOutputs(source.fileName, finished), attempt, ctx.consistency, source.fileName);
+        if (!best || (consistency.score ?? 1) > (best.consistency.score ?? 1)) best = { ...frame, consistency };
+        if (!consistency.flagged || attempt > maxRegenerations) {
+            return { ...best, consistency: { ...best.consistency, attempts: attempt } };
+        }
+        logEvent('warn', `LOW CONSISTENCY: ${formatConsistency(consistency)}. REGENERATING (${attempt}/${maxRegenerations}).`, { frame: source.fileName });
+    }
+}
+
+/**
+ * Everything before image generation for one frame: analysis, identification,
+ * cast resolution and the final prompt. With a cached plan only the prompt is
+ * rebuilt. Failures come back as a FAILED plan rather than throwing.
+ */
+export async function planFrame(ctx: PipelineContext, img: SourceImage, cached?: FramePlan): Promise<FramePlan> {
+    const sidecar = ctx.report.sidecars[img.fileName];
+    const plan: FramePlan = {
+        originalName: img.fileName,
+        characterName: 'Unknown',
+        avatarFilename: null,
+        avatarSource: 'none',
+        otherCharacters: [],
+        identities: [],
+        stylePreset: null,
+        prompt: '',
+        status: 'SKIPPED',
+        error: 'NO CONTEXT',
+        templates: [],
+    };
+    if (!sidecar) return plan;
+
+    try {
+        const visualAnalysis = cached?.visualAnalysis ?? await analyzeSceneImage(img.base64, img.mimeType, img.fileName);
+        plan.visualAnalysis = visualAnalysis;
+        const mapping = cached?.identified ?? await identifyConsistentCharacter(sidecar.body, visualAnalysis, ctx.bible, img.fileName);
+        plan.identified = mapping;
+        if (!cached && mapping.avatarFilename && !resolveAvatarKey(mapping.avatarFilename, ctx.avatars)) {
+            logEvent('warn', `MODEL NAMED UNKNOWN AVATAR "${mapping.avatarFilename}".`, { frame: img.fileName });
+        }
+        const resolved = resolveFrameCast(ctx.cast, ctx.bible, img.fileName, mapping, ctx.avatars);
+        plan.characterName = resolved.characterName;
+        plan.avatarFilename = resolved.avatarFilename;
+        plan.avatarSource = resolved.avatarSource;
+        plan.otherCharacters = mapping.otherCharacters || [];
+        // Positions drawn in the plan table survive a prompt rebuild; avatars follow the cast table.
+        const drawn = cached ? identitiesOf(cached) : [];
+        plan.identities = buildFrameIdentities(resolved, plan.otherCharacters, mapping.onScreen || [], ctx.cast, ctx.bible, ctx.avatars)
+            .map(identity => ({ ...identity, position: drawn.find(c => c.characterName === identity.characterName)?.position ?? identity.position }));
+
+        const frameStyle = styleFor(ctx, img.fileName);
+        plan.stylePreset = frameStyle.preset;
+        const beatId = ctx.beats[img.fileName];
+        plan.beat = findBeat(ctx.story, beatId)?.id;
+        plan.prompt = await generateRejuvenatedPrompt(
+            sidecar.body,
+            plan.characterName,
+            plan.otherCharacters,
+            ctx.bible,
+            frameStyle.style,
+            visualAnalysis,
+            scriptContextFor(ctx, img.fileName, sidecar.body),
+            ctx.story && beatId ? formatBeat(ctx.story, beatId) : null,
+            img.fileName
+        );
+        plan.templates = [...(cached?.templates.filter(t => !t.startsWith('prompt@')) || [templateLabel('analysis'), templateLabel('identify')]), templateLabel('prompt')];
+        return { ...plan, status: 'PLANNED', error: undefined };
+    } catch (err) {
+        return { ...plan, status: 'FAILED', error: describeError(err) };
+    }
+}
+
+/** Image generation for a planned frame; failures come back as a FAILED item. */
+export async function renderPlannedFrame(ctx: PipelineContext, img: SourceImage, plan: FramePlan, finished: RejuvenatedItem[]): Promise<RejuvenatedItem> {
+    const sidecar = ctx.report.sidecars[img.fileName];
+    const item: RejuvenatedItem = {
+        originalName: img.fileName,
+        newName: outputNames(ctx).get(img.fileName)!.file,
+        base64: null,
+        prompt: plan.prompt,
+        characterName: plan.characterName,
+        avatarFilename: plan.avatarFilename,
+        identities: identitiesOf(plan),
+        ...(plan.stylePreset ? { stylePreset: plan.stylePreset } : {}),
+        ...(plan.beat ? { beat: plan.beat } : {}),
+        status: 'FAILED',
+        meta: '',
+    };
+    // Plans saved before multi-character support carry only the subject.
+    const identities = identitiesOf(plan);
+    try {
+        if (plan.status !== 'PLANNED') throw new Error(plan.error || `FRAME ${plan.status} IN PLAN`);
+        const gen = await renderCheckedFrame(ctx, plan.prompt, identities, img, finished);
+
+        const templates = [...plan.templates, ...imageTemplates(ctx, identities)];
+        const frameCost = usageOf(img.fileName);
+        return {
+            ...item,
+            base64: gen.imageBase64,
+            status: 'DONE',
+            review: 'PENDING',
+            consistency: gen.consistency,
+            templates,
+            usage: frameCost,
+            meta: buildFrameMeta({
+                originalName: img.fileName,
+                characterName: plan.characterName,
+                avatar: plan.avatarFilename ? `${plan.avatarFilename} (${plan.avatarSource})` : 'NONE',
+                identities,
+                stylePreset: plan.stylePreset,
+                beat: beatOf(ctx, plan.beat),
+                prompt: plan.prompt,
+                format: gen.format,
+                sceneData: sidecar?.raw || '',
+                consistency: gen.consistency,
+                templates,
+                usage: frameCost,
+            }),
+        };
+    } catch (err) {
+        const reason = describeError(err);
+        return {
+            ...item,
+            error: reason,
+            usage: usageOf(img.fileName),
+            meta: `ORIGINAL: ${img.fileName}\nSTATUS: FAILED\nERROR: ${reason}\n\nSCENE DATA:\n${sidecar?.raw || ''}`,
+        };
+    }
+}
+
+/** Registers a frame as in flight for the duration of `work`, so skipping it aborts its model calls. */
+async function trackFrame<T>(control: RunControl, frame: string, index: number, total: number, onEvent: PipelineListener | undefined, work: () => Promise<T>): Promise<T> {
+    control.startFrame(frame);
+    onEvent?.({ type: 'frame-started', frame, index, total });
+    try {
+        return await work();
+    } finally {
+        control.endFrame(frame);
+        onEvent?.({ type: 'frame-ended', frame });
+    }
+}
+
+export interface StageOptions {
+    control: RunControl;
+    concurrency: number;
+    onEvent?: PipelineListener;
+}
+
+/**
+ * Dry run over every frame. Frames with a cached plan carrying analysis and
+ * identification only get their prompt rebuilt.
+ * @throws the abort reason when the run is cancelled.
+ */
+export async function planFrames(ctx: PipelineContext, { control, concurrency, onEvent, cached }: StageOptions & { cached?: Map<string, FramePlan> }): Promise<FramePlan[]> {
+    const images = frameImages(ctx);
+    const next: FramePlan[] = [];
+    let started = 0;
+    await mapConcurrent(images, concurrency, async img => {
+        if (control.cancelled) return;
+        const previous = cached?.get(img.fileName);
+        const frameStarted = Date.now();
+        let framePlan = await trackFrame(control, img.fileName, ++started, images.length, onEvent, () =>
+            planFrame(ctx, img, previous?.visualAnalysis && previous.identified ? previous : undefined));
+        if (control.isSkipped(img.fileName)) framePlan = { ...framePlan, status: 'SKIPPED', error: 'SKIPPED BY OPERATOR' };
+        next.push(framePlan);
+        onEvent?.({ type: 'frame-planned', plan: framePlan, done: next.length, total: images.length });
+        const details = { frame: img.fileName, durationMs: Date.now() - frameStarted };
+        if (framePlan.status === 'FAILED') logEvent('error', "PLANNING FAILED", { ...details, error: { name: 'PlanError', message: framePlan.error || '' } });
+        else if (framePlan.status === 'PLANNED') logEvent('info', `PLANNED: ${framePlan.characterName}${framePlan.stylePreset ? ` [${framePlan.stylePreset}]` : ''}`, details);
+    });
+    control.signal.throwIfAborted();
+    return next.sort((a, b) => compareFrameNames(a.originalName, b.originalName));
+}
+
+export interface ProductionOutcome {
+    /** Every recorded frame, including those carried over from `previous`. */
+    results: RejuvenatedItem[];
+    /** Why the run stopped early (budget or operator pause); null when every frame was started. */
+    paused: string | null;
+}
+
+/**
+ * Image generation over every frame not already finished in `previous`
+ * (failed frames are retried). With an approved plan, frames are rendered
+ * exactly as planned and unplanned ones are skipped; otherwise each frame is
+ * planned on the way. Stops starting frames when the budget would be exceeded
+ * or a pause is requested; unstarted frames stay unrecorded.
+ * @throws the abort reason when the run is cancelled.
+ */
+export async function produceFrames(
+    ctx: PipelineContext,
+    { control, concurrency, onEvent, approved = null, previous = [] }: StageOptions & { approved?: Map<string, FramePlan> | null; previous?: RejuvenatedItem[] },
+): Promise<ProductionOutcome> {
+    const allImages = frameImages(ctx);
+    const runResults: RejuvenatedItem[] = previous.filter(r => r.status !== 'FAILED');
+    const finished = new Set(runResults.map(r => r.originalName));
+    if (finished.size > 0) {
+        logEvent('info', `SKIPPING ${finished.size} FRAMES FINISHED IN A PREVIOUS SESSION.`);
+    }
+
+    const record = (item: RejuvenatedItem) => {
+        runResults.push(item);
+        onEvent?.({ type: 'frame-result', item });
+    };
+
+    const pending = allImages.filter(img => !finished.has(img.fileName));
+    const names = outputNames(ctx);
+    let started = finished.size;
+    // Frames already running are expected to cost as much as an average completed
+    // frame, so parallel workers cannot all slip in under the budget at once.
+    let inFlight = 0;
+    const completed = [...finished];
+    const waiting: (() => void)[] = [];
+    const budgeted = getCostSettings().budget > 0;
+    let budgetHit = false;
+    let held = false;
+
+    const processFrame = async (img: SourceImage) => {
+        if (control.cancelled) return;
+        const planned = approved?.get(img.fileName);
+
+        if (!ctx.report.sidecars[img.fileName] || (approved && planned?.status !== 'PLANNED')) {
+            const reason = approved ? 'NOT PLANNED' : 'NO CONTEXT';
+            logEvent('info', `SKIPPING (${reason})`, { frame: img.fileName });
+            record({
+                originalName: img.fileName,
+                newName: names.get(img.fileName)!.file,
+                base64: null,
+                prompt: planned?.prompt || '',
+                characterName: planned?.characterName || 'Unknown',
+                avatarFilename: planned?.avatarFilename || null,
+                status: 'SKIPPED',
+                meta: `ORIGINAL: ${img.fileName}\nSTATUS: SKIPPED (${reason})`,
+            });
+            return;
+        }
+
+        // With a budget, frames run one at a time until one has completed and shown what a frame costs.
+        while (budgeted && !budgetHit && inFlight > 0 && averageFrameCost(completed) === null) {
+            await new Promise<void>(resolve => waiting.push(resolve));
+        }
+        if (control.cancelled) return;
+
+        if (budgetHit || wouldExceedBudget((averageFrameCost(completed) ?? 0) * (inFlight + 1))) {
+            if (!budgetHit) logEvent('warn', `BUDGET REACHED BEFORE ${img.fileName}: ${formatCost(summarizeUsage().run.cost)} OF ${formatCost(getCostSettings().budget)} SPENT. FINISHING FRAMES IN FLIGHT.`);
+            budgetHit = true;
+            return;
+        }
+
+        if (control.pauseRequested) {
+            held = true;
+            return;
+        }
+
+        started++;
+        inFlight++;
+        const frameStarted = Date.now();
+        try {
+            const item = await trackFrame(control, img.fileName, started, allImages.length, onEvent, async () =>
+                renderPlannedFrame(ctx, img, planned || await planFrame(ctx, img), runResults));
+            if (control.isSkipped(img.fileName)) {
+                logEvent('warn', "SKIPPED BY OPERATOR", { frame: img.fileName, durationMs: Date.now() - frameStarted });
+                record({ ...item, base64: null, status: 'SKIPPED', error: undefined, meta: `ORIGINAL: ${img.fileName}\nSTATUS: SKIPPED (BY OPERATOR)` });
+                return;
+            }
+            // A frame cut short by cancelling stays unrecorded, so resuming runs it again.
+            if (control.cancelled) return;
+            record(item);
+            if (item.status === 'DONE') {
+                logEvent(item.consistency?.flagged ? 'warn' : 'success', `READY: ${item.newName}${item.consistency?.flagged ? ` — FLAGGED ${formatConsistency(item.consistency)}` : ''}`, { frame: img.fileName, durationMs: Date.now() - frameStarted });
+            } else {
+                logEvent('error', "FRAME FAILED", { frame: img.fileName, durationMs: Date.now() - frameStarted, error: { name: 'FrameError', message: item.error || '' } });
+            }
+        } finally {
+            inFlight--;
+            completed.push(img.fileName);
+            waiting.splice(0).forEach(resume => resume());
+        }
+    };
+
+    await mapConcurrent(pending, concurrency, processFrame);
+    control.signal.throwIfAborted();
+
+    const paused = budgetHit ? 'BUDGET REACHED' : held ? 'PAUSED BY OPERATOR' : null;
+    if (paused) {
+        logEvent('warn', `RUN PAUSED AT ${formatCost(summarizeUsage().run.cost)} (${paused}): ${allImages.length - runResults.length} FRAMES LEFT.`);
+    }
+    return { results: runResults, paused };
+}
+
+export interface PipelineOptions extends StageOptions {
+    /** Overrides the archives' `style.txt`. */
+    style?: string;
+    styles?: StyleLibrary;
+    frameFormat?: FrameFormat;
+    consistency?: ConsistencySettings;
+    /** Defaults to no conforming, as outside the browser. */
+    conform?: PipelineContext['conform'];
+}
+
+export interface PipelineRun extends ProductionOutcome {
+    ingested: IngestedArchives;
+    context: PipelineContext;
+}
+
+const enterStage = (stage: RunStage, onEvent?: PipelineListener) => {
+    setLogStage(stage);
+    onEvent?.({ type: 'stage', stage });
+};
+
+/**
+ * End to end without review: ingest, bible, automatic cast, then production.
+ * The bible and cast are used as the model proposes them; the ingest report
+ * is logged rather than reviewed.
+ * @throws when the bible fails or the run is cancelled.
+ */
+export async function runPipeline(archives: OpenedArchive[], options: PipelineOptions): Promise<PipelineRun> {
+    const { control, onEvent } = options;
+    setActiveRun(control);
+    try {
+        enterStage('VALIDATING', onEvent);
+        const ingested = await ingestArchives(archives);
+        configurePromptTemplates(loadPromptTemplates(ingested.textFiles).templates);
+        const { report } = ingested;
+        const issues = countIngestIssues(report) + ingested.duplicates.length;
+        if (issues > 0) logEvent('warn', `INGEST REPORT: ${issues} ISSUES (${report.framesWithoutSidecar.length} FRAMES WITHOUT SIDECAR).`);
+        logEvent('info', `LOADED: ${Object.keys(ingested.processedImages).length} FRAMES, ${Object.keys(ingested.avatars).length} AVATARS.`);
+
+        enterStage('ANALYZING', onEvent);
+        const context: PipelineContext = {
+            avatars: ingested.avatars,
+            processedImages: ingested.processedImages,
+            report,
+            bible: [],
+            cast: EMPTY_CAST,
+            style: options.style ?? ingested.style ?? DEFAULT_BASE_STYLE,
+            styles: options.styles ?? DEFAULT_STYLE_LIBRARY,
+            frameFormat: options.frameFormat ?? DEFAULT_FRAME_FORMAT,
+            consistency: options.consistency ?? DEFAULT_CONSISTENCY_SETTINGS,
+            fullScript: ingested.fullScript,
+            screenplay: ingested.screenplay,
+            story: ingested.story,
+            beats: {},
+            conform: options.conform ?? null,
+        };
+        context.beats = alignStory(context);
+        const { bible, cast } = await analyzeScript(context);
+        context.bible = bible;
+        context.cast = cast;
+        onEvent?.({ type: 'bible', bible, cast });
+        logEvent('success', `BIBLE READY. ${bible.length} CHARACTERS FOUND.`);
+        control.signal.throwIfAborted();
+
+        enterStage('PROCESSING', onEvent);
+        const outcome = await produceFrames(context, options);
+        enterStage(outcome.paused ? 'PAUSED' : 'COMPLETE', onEvent);
+        return { ...outcome, ingested, context };
+    } finally {
+        setActiveRun(null);
+    }
+}
@@ -0,0 +1,80 @@
+import { IdentityAssignment, ScreenPosition } from '../types';
+import { AvatarSource } from './castService';
+import { formatIdentities, identitiesOf } from './identityService';
+import { csvCell } from './timelineExportService';
+
+/**
+ * Dry-run plans. A plan records, for every frame, what the pipeline decided
+ * before image generation: the subject, the avatar, who else is in the scene
+ * and the final prompt. It can be reviewed and edited, exported, and then
+ * executed with image generation only.
+ */
+
+export type PlanStatus = 'PLANNED' | 'SKIPPED' | 'FAILED';
+
+export interface FramePlan {
+    originalName: string;
+    characterName: string;
+    avatarFilename: string | null;
+    /** How the avatar was chosen; 'manual' once edited in the plan table. */
+    avatarSource: AvatarSource | 'manual';
+    otherCharacters: string[];
+    /** Everyone to replace, subject first; the subject mirrors characterName and avatarFilename. */
+    identities: IdentityAssignment[];
+    /** Style preset behind the prompt; null for the base style. */
+    stylePreset: string | null;
+    /** Story beat the prompt was written for, e.g. "2.3"; absent without a story map. */
+    beat?: string;
+    prompt: string;
+    status: PlanStatus;
+    error?: string;
+    /** Cached scene analysis and identification, reused when only prompts are rebuilt. */
+    visualAnalysis?: string;
+    identified?: {
+        characterName: string;
+        avatarFilename: string | null;
+        otherCharacters?: string[];
+        onScreen?: { characterName: string; position: ScreenPosition }[];
+    };
+    /** Templates behind the analysis, identification and prompt, as "name@version". */
+    templates: string[];
+}
+
+/** The reviewable columns, without the cached model output. */
+export function planRows(plans: FramePlan[]) {
+    return plans.map(p => ({
+        frame: p.originalName,
+        status: p.status,
+        subject: p.characterName,
+        avatar: p.avatarFilename,
+        avatarSource: p.avatarSource,
+        otherCharacters: p.otherCharacters,
+        identities: identitiesOf(p),
+        style: p.stylePreset,
+        beat: p.beat || null,
+        prompt: p.prompt,
+        ...(p.error ? { error: p.error } : {}),
+    }));
+}
+
+export const toPlanJson = (plans: FramePlan[]) => JSON.stringify(planRows(plans), null, 2);
+
+export function toPlanCsv(plans: FramePlan[]): string {
+    const header = ['frame', 'status', 'subject', 'avatar', 'avatar_source', 'other_characters', 'identities', 'style', 'beat', 'prompt', 'error'];
+    const rows = planRows(plans).map(row => [
+        row.frame,
+        row.status,
+        row.subject,
+        row.avatar || '',
+        row.avatarSource,
+        row.otherCharacters.join('; '),
+        formatIdentities(row.identities),
+        row.style || '',
+        row.beat || '',
+        row.prompt,
+        row.error || '',
+    ]);
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+export const countPlanned = (plans: FramePlan[]) => plans.filter(p => p.status === 'PLANNED').length;
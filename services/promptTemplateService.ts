@@ -0,0 +1,245 @@
+import { TextFile } from '../types';
+import { ContentPart } from './providers';
+
+/**
+ * Named, versioned prompt templates. Every model call renders one of these;
+ * `{{variable}}` placeholders are filled from the call's values, and image
+ * variables become inline image parts at the point they appear.
+ *
+ * An uploaded archive can override any template with `prompts/<name>.txt`:
+ *
+ *     VERSION: 3
+ *     VARIABLES: sceneText, characterName, style
+ *     ---
+ *     ...template body...
+ *
+ * The variables an override may use are fixed per template (see
+ * DEFAULT_TEMPLATES); anything else is reported and the override is ignored.
+ */
+
+export const PROMPT_FOLDER = 'prompts';
+
+export type PromptTemplateName = 'bible' | 'analysis' | 'identify' | 'prompt' | 'image' | 'identity' | 'imageNoAvatar' | 'voice' | 'verify';
+
+export interface PromptTemplate {
+    name: PromptTemplateName;
+    version: string;
+    /** Placeholders the body may use. */
+    variables: string[];
+    body: string;
+    source: 'default' | 'archive';
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+const template = (name: PromptTemplateName, variables: string[], body: string, version = '1'): PromptTemplate => ({
+    name,
+    version,
+    variables,
+    body,
+    source: 'default',
+});
+
+export const DEFAULT_TEMPLATES: Record<PromptTemplateName, PromptTemplate> = {
+    bible: template('bible', ['filenames', 'fullScript'], `I am producing a high-stakes film. I need a master "Character Bible" for consistency.
+
+ASSET LIST (AVATARS): {{filenames}}
+
+FULL SCRIPT EXCERPT:
+{{fullScript}}
+
+TASK:
+1. EXHAUSTIVE ANALYSIS: For every character in the script, define their visual blueprint: skin tone, hair texture, distinct facial features (sharp jaw, hooked nose, etc.), and their signature "vibe" (neurotic, imposing, deceptive).
+2. ASSET MAPPING: Map the provided filenames to these characters. Be logical. If 'avatar_boss.png' exists, it matches the 'Boss' character.
+3. STYLE KEY: Note their unique dialogue patterns to help infer physical performance.
+
+OUTPUT JSON ONLY, one entry per character:
+[
+  {
+    "name": "Character name exactly as written in the script",
+    "gender": "male | female | unknown",
+    "race": "Ethnicity or species, if relevant",
+    "visualTraits": "Skin tone, hair texture, distinct facial features and signature vibe.",
+    "avatarFilename": "Exact filename from the ASSET LIST, or null",
+    "dialogueStyle": "Dialogue patterns and what they imply for physical performance.",
+    "voiceDescription": "How the character sounds.",
+    "otherDescriptors": "Anything else a visual effects artist must keep consistent."
+  }
+]`),
+
+    analysis: template('analysis', ['sceneImage'], `{{sceneImage}}DECONSTRUCT THIS FRAME: Describe the exact lighting setup (e.g., chiaroscuro, high-key), the camera lens feel, the character's current pose/silhouette, and the environment. Identify the exact emotional state of the character in the frame.`),
+
+    identify: template('identify', ['sceneText', 'visualAnalysis', 'sceneBible', 'castRoster'], `[CROSS-REFERENCE REQUEST]
+
+CONTEXT:
+SCENE DIALOGUE/ACTION: "{{sceneText}}"
+VISUAL DATA FROM ROUGH FRAME: "{{visualAnalysis}}"
+
+CHARACTERS NAMED IN THIS SCENE:
+{{sceneBible}}
+
+FULL CAST (NAME → AVATAR):
+{{castRoster}}
+
+OUTPUT JSON ONLY:
+{
+  "characterName": "Who is the primary subject currently on screen?",
+  "avatarFilename": "Which filename from the Bible represents this person?",
+  "otherCharacters": ["Who else is in the scene contextually?"],
+  "onScreen": [{ "characterName": "Everyone visible in the frame, the primary subject included", "position": "left | center | right | foreground | background" }],
+  "reasoning": "Brief technical justification."
+}`, '2'),
+
+    prompt: template('prompt', ['storyBeat', 'sceneText', 'scriptContext', 'characterName', 'otherCharacters', 'sceneBible', 'visualAnalysis', 'style'], `[CINEMATIC RECONSTRUCTION INSTRUCTION - NANO BANANA OPTIMIZED]
+
+STORY ENGINE DATA:
+- STORY BEAT: {{storyBeat}}
+- CURRENT ACTION/DIALOGUE: {{sceneText}}
+- NEIGHBOURING SCENES: {{scriptContext}}
+
+VISUAL PARAMETERS:
+- TARGET IDENTITY: {{characterName}}
+- OTHER CHARACTERS IN SCENE: {{otherCharacters}}
+- BIBLE ENTRIES FOR THIS SCENE:
+{{sceneBible}}
+- ORIGINAL FRAME COMPOSITION: {{visualAnalysis}}
+- REQUIRED STYLE: {{style}}
+
+TASK: Write a prompt for a high-end image diffusion model (Gemini 2.5 Image).
+1. EMOTION INFERENCE: Determine the EXACT micro-expression required (e.g., "twitching eye in repressed rage", "a cold, calculating smirk").
+2. DESTRUCTIVE REPLACEMENT: Instruct the model to RECODE the face. Specify the skin texture, the light hitting the specific bone structure of {{characterName}}.
+3. CINEMATOGRAPHY: Force specific lens traits (e.g. "Anamorphic bokeh, subtle halation, 35mm celluloid grit").
+4. TONALITY: Match the 'action, tone, and emotion' of the script.
+
+Output ONLY the final prompt. No conversation.`, '2'),
+
+    image: template('image', ['prompt', 'characterName', 'subjectPosition', 'avatarImage', 'castImages', 'sceneImage'], `[PROMPT] {{prompt}}
+
+[INSTRUCTION] This is an IDENTITY TRANSPLANT. Use the AVATAR image as the *only* source for the identity of {{characterName}}, the person {{subjectPosition}} in the SCENE. Use the SCENE image for pose, lighting, and composition. Replace that person in the SCENE with the person from the AVATAR. Anyone else listed below is replaced the same way with their own identity image; everyone not listed stays as drawn.
+
+AVATAR (Identity Source):{{avatarImage}}
+{{castImages}}
+SCENE (Composition Source):{{sceneImage}}`, '2'),
+
+    identity: template('identity', ['characterName', 'position', 'avatarImage'], `ALSO REPLACE: {{characterName}}, the person {{position}} in the SCENE. Use this image as the only source for their identity:{{avatarImage}}
+`),
+
+    imageNoAvatar: template('imageNoAvatar', ['prompt', 'sceneImage'], `TASK: CINEMATIC RE-RENDER.
+- Enhance the following image based on this style: {{prompt}}
+- OUTPUT: A single, high-fidelity, color film frame.{{sceneImage}}`),
+
+    voice: template('voice', ['voiceDescription', 'direction', 'line'], `Read the line below as a film actor, in character.
+VOICE: {{voiceDescription}}
+DELIVERY: {{direction}}
+Speak only the line itself, nothing else.
+LINE: {{line}}`),
+
+    verify: template('verify', ['characterName', 'avatarImage', 'outputImage'], `IDENTITY CHECK for "{{characterName}}". Compare the person in the OUTPUT frame with the AVATAR. Judge face shape, features, skin tone and hair only; ignore pose, lighting, wardrobe and framing.
+
+AVATAR:{{avatarImage}}
+
+OUTPUT:{{outputImage}}
+
+OUTPUT JSON ONLY: {"identityScore": number from 0 (different person) to 1 (clearly the same person), "reasoning": "one sentence"}`),
+};
+
+export const TEMPLATE_NAMES = Object.keys(DEFAULT_TEMPLATES) as PromptTemplateName[];
+
+let active: Record<PromptTemplateName, PromptTemplate> = { ...DEFAULT_TEMPLATES };
+
+/** Replaces the active overrides; templates not overridden fall back to the defaults. */
+export function configurePromptTemplates(overrides: PromptTemplate[]) {
+    active = { ...DEFAULT_TEMPLATES };
+    for (const override of overrides) active[override.name] = override;
+}
+
+export function getPromptTemplate(name: PromptTemplateName): PromptTemplate {
+    return active[name];
+}
+
+/** "name@version", plus "(archive)" for overrides; recorded with each result. */
+export function templateLabel(name: PromptTemplateName): string {
+    const t = active[name];
+    return `${t.name}@${t.version}${t.source === 'archive' ? ' (archive)' : ''}`;
+}
+
+const placeholders = (body: string) => Array.from(body.matchAll(PLACEHOLDER), m => m[1]);
+
+export const isPromptTemplateFile = (path: string) =>
+    path.split('/').slice(0, -1).some(folder => folder.toLowerCase() === PROMPT_FOLDER) && path.toLowerCase().endsWith('.txt');
+
+/** Reads one `prompts/<name>.txt` override. */
+export function parsePromptTemplate(file: TextFile): { template: PromptTemplate | null; problems: string[] } {
+    const problems: string[] = [];
+    const stem = file.name.split('/').pop()!.replace(/\.[^.]+$/, '');
+    const name = TEMPLATE_NAMES.find(n => n.toLowerCase() === stem.toLowerCase());
+    if (!name) {
+        return { template: null, problems: [`${file.name}: unknown template "${stem}" (expected one of ${TEMPLATE_NAMES.join(', ')}).`] };
+    }
+
+    const lines = file.content.replace(/\r\n?/g, '\n').split('\n');
+    const separator = lines.findIndex(line => line.trim() === '---');
+    const fields: Record<string, string> = {};
+    for (const line of separator === -1 ? [] : lines.slice(0, separator)) {
+        const match = line.match(/^([A-Za-z]+):\s*(.*)$/);
+        if (match) fields[match[1].toLowerCase()] = match[2].trim();
+        else if (line.trim()) problems.push(`${file.name}: header line "${line.trim()}" is not "KEY: value".`);
+    }
+    const body = (separator === -1 ? lines : lines.slice(separator + 1)).join('\n').trim();
+    if (!body) problems.push(`${file.name}: template body is empty.`);
+
+    const allowed = DEFAULT_TEMPLATES[name].variables;
+    const declared = fields.variables ? fields.variables.split(',').map(v => v.trim()).filter(Boolean) : placeholders(body);
+    const unavailable = declared.filter(v => !allowed.includes(v));
+    if (unavailable.length > 0) problems.push(`${file.name}: variables not available to "${name}": ${unavailable.join(', ')}.`);
+    const undeclared = [...new Set(placeholders(body))].filter(v => !declared.includes(v));
+    if (undeclared.length > 0) problems.push(`${file.name}: placeholders not declared in VARIABLES: ${undeclared.join(', ')}.`);
+
+    if (problems.length > 0) return { template: null, problems };
+    return {
+        template: { name, version: fields.version || 'archive', variables: [...new Set(declared)], body, source: 'archive' },
+        problems,
+    };
+}
+
+/** All overrides found in the uploaded text files. Later files win when a name repeats. */
+export function loadPromptTemplates(texts: TextFile[]): { templates: PromptTemplate[]; problems: string[] } {
+    const byName = new Map<PromptTemplateName, PromptTemplate>();
+    const problems: string[] = [];
+    for (const file of texts.filter(f => isPromptTemplateFile(f.name))) {
+        const parsed = parsePromptTemplate(file);
+        problems.push(...parsed.problems);
+        if (parsed.template) byName.set(parsed.template.name, parsed.template);
+    }
+    return { templates: [...byName.values()], problems };
+}
+
+export type TemplateValue = string | { image: { data: string; mimeType: string } } | { parts: ContentPart[] };
+
+/**
+ * Renders the active template into model parts. Text values are substituted
+ * in place; image values split the text and are inserted as inline images, and
+ * part values (another rendered template) are spliced in whole.
+ */
+export function renderPrompt(name: PromptTemplateName, values: Record<string, TemplateValue>): ContentPart[] {
+    const parts: ContentPart[] = [];
+    let text = '';
+    let last = 0;
+    const { body } = active[name];
+    for (const match of body.matchAll(PLACEHOLDER)) {
+        text += body.slice(last, match.index);
+        last = match.index! + match[0].length;
+        const value = values[match[1]];
+        if (value && typeof value === 'object') {
+            if (text.trim()) parts.push({ text });
+            if ('image' in value) parts.push({ inlineData: value.image });
+            else parts.push(...value.parts);
+            text = '';
+        } else {
+            text += value ?? '';
+        }
+    }
+    text += body.slice(last);
+    if (text.trim()) parts.push({ text });
+    return parts;
+}
@@ -0,0 +1,56 @@
+import { GoogleGenAI } from "@google/genai";
+import { GenerateRequest, GenerateResponse, ModelProvider, TokenUsage } from './types';
+
+/**
+ * Google Gemini backend. The client is created on first use so the app can
+ * load (and run on the mock provider) without an API key.
+ */
+export function createGeminiProvider(apiKey: string | undefined = process.env.API_KEY): ModelProvider {
+    let client: GoogleGenAI | null = null;
+
+    const getClient = () => {
+        if (!apiKey) {
+            throw new Error("API_KEY environment variable not set");
+        }
+        if (!client) {
+            client = new GoogleGenAI({ apiKey });
+        }
+        return client;
+    };
+
+    return {
+        id: 'gemini',
+        label: 'Google Gemini',
+        rateLimited: true,
+        async generate({ stage, model, parts, json, aspectRatio, voice, signal }: GenerateRequest): Promise<GenerateResponse> {
+            const config: Record<string, unknown> = {};
+            if (signal) config.abortSignal = signal;
+            if (json) config.responseMimeType = "application/json";
+            if (stage === 'image' && aspectRatio) config.imageConfig = { aspectRatio };
+            if (stage === 'voice') {
+                config.responseModalities = ['AUDIO'];
+                if (voice) config.speechConfig = { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } };
+            }
+
+            const response = await getClient().models.generateContent({
+                model,
+                contents: { parts },
+                config,
+            });
+
+            const meta = response.usageMetadata;
+            const usage: TokenUsage | undefined = meta && {
+                inputTokens: meta.promptTokenCount ?? 0,
+                outputTokens: (meta.candidatesTokenCount ?? 0) + (meta.thoughtsTokenCount ?? 0),
+            };
+
+            const inline = (response.candidates?.[0]?.content?.parts || []).find(p => p.inlineData?.data)?.inlineData;
+            if (stage === 'voice') {
+                // TTS models answer with raw 16-bit PCM ("audio/L16;codec=pcm;rate=24000").
+                return { text: null, imageBase64: null, usage, audio: inline?.data ? { data: inline.data, mimeType: inline.mimeType || 'audio/L16;rate=24000' } : null };
+            }
+            // Reading .text on an image response only produces SDK warnings.
+            return { text: stage === 'image' ? null : response.text ?? null, imageBase64: inline?.data ?? null, usage };
+        },
+    };
+}
@@ -0,0 +1,50 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { ModelProvider, ModelStage, ProviderId, ProviderSettings } from './types';
+
+export * from './types';
+
+export const PROVIDER_FACTORIES: Record<ProviderId, () => ModelProvider> = {
+    gemini: () => createGeminiProvider(),
+    mock: createMockProvider,
+};
+
+export const MODEL_STAGES: ModelStage[] = ['bible', 'analysis', 'identify', 'prompt', 'image', 'voice', 'verify'];
+
+export const DEFAULT_STAGE_MODELS: Record<ModelStage, string> = {
+    bible: "gemini-3-pro-preview",      // Pro for the bible creation
+    analysis: "gemini-3-flash-preview", // Flash 3 is great for vision
+    identify: "gemini-3-flash-preview",
+    prompt: "gemini-3-pro-preview",
+    image: "gemini-2.5-flash-image",
+    voice: "gemini-2.5-flash-preview-tts",
+    verify: "gemini-3-flash-preview",
+};
+
+/** Falls back to the offline mock when no key is configured. */
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    providerId: process.env.API_KEY ? 'gemini' : 'mock',
+    models: { ...DEFAULT_STAGE_MODELS },
+};
+
+let settings: ProviderSettings = DEFAULT_PROVIDER_SETTINGS;
+let provider: ModelProvider = PROVIDER_FACTORIES[settings.providerId]();
+
+export function configureProvider(next: ProviderSettings) {
+    if (next.providerId !== provider.id) {
+        provider = PROVIDER_FACTORIES[next.providerId]();
+    }
+    settings = { providerId: next.providerId, models: { ...DEFAULT_STAGE_MODELS, ...next.models } };
+}
+
+export function getProviderSettings(): ProviderSettings {
+    return settings;
+}
+
+export function getProvider(): ModelProvider {
+    return provider;
+}
+
+export function modelFor(stage: ModelStage): string {
+    return settings.models[stage];
+}
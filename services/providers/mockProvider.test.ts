@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AnalyzedCharacter } from '../../types';
+import { createCharacterBible, generateDialogueAudio, identifyConsistentCharacter } from '../geminiService';
+import { configurePromptTemplates, DEFAULT_TEMPLATES, PromptTemplate } from '../promptTemplateService';
+import { configureProvider, DEFAULT_STAGE_MODELS } from '.';
+
+const edited = (name: PromptTemplate['name'], body: string): PromptTemplate =>
+    ({ ...DEFAULT_TEMPLATES[name], body, version: 'edited', source: 'archive' });
+
+const character = (name: string, avatarFilename: string | null): AnalyzedCharacter =>
+    ({ name, gender: 'unknown', visualTraits: '', avatarFilename, dialogueStyle: '' });
+
+describe('mock provider with edited prompt templates', () => {
+    beforeEach(() => {
+        configureProvider({ providerId: 'mock', models: { ...DEFAULT_STAGE_MODELS } });
+        configurePromptTemplates([
+            edited('bible', 'Avatars: {{filenames}}\n{{fullScript}}'),
+            edited('identify', '{{sceneText}} / {{castRoster}}'),
+            edited('voice', 'Say it: {{line}}'),
+        ]);
+    });
+    afterEach(() => configurePromptTemplates([]));
+
+    it('builds the bible from the avatar filenames', async () => {
+        const bible = await createCharacterBible(['avatar_jane.png', 'avatar_tom.png'], 'JANE\nHello.');
+        expect(bible.map(entry => entry.avatarFilename)).toEqual(['avatar_jane.png', 'avatar_tom.png']);
+    });
+
+    it('identifies a character named in the scene', async () => {
+        const bible = [character('Jane', 'avatar_jane.png'), character('Tom', null)];
+        const result = await identifyConsistentCharacter('Jane walks in.', 'analysis', bible);
+        expect(result).toMatchObject({ characterName: 'Jane', avatarFilename: 'avatar_jane.png' });
+    });
+
+    it('sizes voice clips to the line', async () => {
+        const short = await generateDialogueAudio('Hi.', '', 'Puck', '');
+        const long = await generateDialogueAudio('This line has quite a lot more words in it than the other one does.', '', 'Puck', '');
+        expect(long.data.length).toBeGreaterThan(short.data.length);
+    });
+});
@@ -0,0 +1,230 @@
+import { characterNameFromFile } from '../castService';
+import { bytesToBase64, encodeWav, placeholderSpeechPcm, PLACEHOLDER_SAMPLE_RATE } from '../audioService';
+import { AspectRatio, ContentPart, GenerateInputs, GenerateRequest, GenerateResponse, ModelProvider, TokenUsage } from './types';
+
+/**
+ * Deterministic offline backend. The same request always yields the same
+ * placeholder text, JSON or image, so the whole pipeline can be demoed and
+ * tested with no key and no network. Answers are built from the request's
+ * structured `inputs`, never from the prompt text, so they hold up under
+ * edited prompt templates.
+ */
+
+const LIGHTING = ['low-key chiaroscuro', 'high-key softbox', 'sodium-vapour night exterior', 'overcast daylight', 'neon rim light'];
+const LENSES = ['35mm anamorphic', '50mm spherical', '85mm portrait', '24mm wide', '135mm telephoto'];
+const MOODS = ['repressed rage', 'quiet dread', 'cold calculation', 'nervous hope', 'weary resignation'];
+
+function fnv1a(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+const pick = <T>(list: T[], seed: number, salt = 0) => list[(seed + salt) % list.length];
+
+function requestText(parts: ContentPart[]): string {
+    return parts.map(p => ('text' in p ? p.text : `<${p.inlineData.mimeType}:${p.inlineData.data.length}>`)).join('\n');
+}
+
+// --- Placeholder PNG encoding (stored deflate, no canvas needed) ---
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+    let c = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+    return (c ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+    let a = 1, b = 0;
+    for (let i = 0; i < bytes.length; i++) {
+        a = (a + bytes[i]) % 65521;
+        b = (b + a) % 65521;
+    }
+    return ((b << 16) | a) >>> 0;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+    let offset = 0;
+    for (const c of chunks) {
+        out.set(c, offset);
+        offset += c.length;
+    }
+    return out;
+}
+
+function u32(value: number): Uint8Array {
+    return new Uint8Array([(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+    const typeBytes = new Uint8Array([...type].map(ch => ch.charCodeAt(0)));
+    const body = concat([typeBytes, data]);
+    return concat([u32(data.length), body, u32(crc32(body))]);
+}
+
+function zlibStored(raw: Uint8Array): Uint8Array {
+    const blocks: Uint8Array[] = [new Uint8Array([0x78, 0x01])];
+    let offset = 0;
+    do {
+        const slice = raw.subarray(offset, Math.min(offset + 0xffff, raw.length));
+        const final = offset + 0xffff >= raw.length ? 1 : 0;
+        const len = slice.length;
+        blocks.push(new Uint8Array([final, len & 0xff, len >>> 8, ~len & 0xff, (~len >>> 8) & 0xff]), slice);
+        offset += 0xffff;
+    } while (offset < raw.length);
+    blocks.push(u32(adler32(raw)));
+    return concat(blocks);
+}
+
+export function encodePlaceholderPng(width: number, height: number, seed: number): Uint8Array {
+    const base = [seed & 0xff, (seed >>> 8) & 0xff, (seed >>> 16) & 0xff];
+    const accent = base.map(c => 255 - c);
+    const raw = new Uint8Array(height * (width * 3 + 1));
+    for (let y = 0; y < height; y++) {
+        const row = y * (width * 3 + 1);
+        raw[row] = 0; // filter: none
+        for (let x = 0; x < width; x++) {
+            // Diagonal band so the placeholder is obviously synthetic.
+            const color = Math.abs(x / width - y / height) < 0.08 ? accent : base;
+            raw.set(color, row + 1 + x * 3);
+        }
+    }
+    const header = concat([u32(width), u32(height), new Uint8Array([8, 2, 0, 0, 0])]);
+    return concat([
+        new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', zlibStored(raw)),
+        pngChunk('IEND', new Uint8Array(0)),
+    ]);
+}
+
+const PLACEHOLDER_SIZES: Record<AspectRatio, [number, number]> = {
+    '1:1': [128, 128],
+    '2:3': [100, 150],
+    '3:2': [150, 100],
+    '3:4': [120, 160],
+    '4:3': [160, 120],
+    '4:5': [128, 160],
+    '5:4': [160, 128],
+    '9:16': [90, 160],
+    '16:9': [160, 90],
+    '21:9': [168, 72],
+};
+
+// --- Stage responders ---
+
+function mockBible({ filenames = [] }: GenerateInputs): string {
+    return JSON.stringify(filenames.map(file => {
+        const seed = fnv1a(file);
+        return {
+            name: characterNameFromFile(file),
+            gender: pick(['male', 'female', 'unknown'], seed),
+            visualTraits: `${pick(LIGHTING, seed)} complexion study, ${pick(MOODS, seed, 1)} vibe.`,
+            avatarFilename: file,
+            dialogueStyle: 'Clipped, deliberate.',
+            voiceDescription: pick(['gravelly baritone', 'bright alto', 'nasal tenor', 'smoky contralto'], seed, 2),
+        };
+    }));
+}
+
+function mockAnalysis(seed: number): string {
+    return `[MOCK ANALYSIS ${seed.toString(16)}] Lighting: ${pick(LIGHTING, seed)}. Lens: ${pick(LENSES, seed, 1)}. Subject centred, three-quarter pose. Emotional state: ${pick(MOODS, seed, 2)}.`;
+}
+
+function mockIdentify({ cast = [], sceneCharacters = [] }: GenerateInputs, seed: number): string {
+    const named = new Set(sceneCharacters);
+    const candidates = cast.some(c => named.has(c.name)) ? cast.filter(c => named.has(c.name)) : cast;
+    const subject = candidates.length > 0 ? pick(candidates, seed) : null;
+    const others = candidates.filter(c => c !== subject).slice(0, 2);
+    return JSON.stringify({
+        characterName: subject?.name || 'Unknown',
+        avatarFilename: subject?.avatarFilename || null,
+        otherCharacters: others.map(c => c.name),
+        onScreen: subject ? [subject, ...others].map((c, i) => ({ characterName: c.name, position: others.length === 0 ? 'center' : ['left', 'right', 'background'][i] })) : [],
+        reasoning: 'Deterministic mock selection.',
+    });
+}
+
+function mockVerify(seed: number): string {
+    return JSON.stringify({ identityScore: 0.55 + (seed % 41) / 100, reasoning: 'Deterministic mock verification.' });
+}
+
+function mockPrompt(seed: number): string {
+    return `[MOCK PROMPT ${seed.toString(16)}] Film frame, ${pick(LENSES, seed)}, ${pick(LIGHTING, seed, 1)}, micro-expression of ${pick(MOODS, seed, 2)}, 35mm celluloid grit.`;
+}
+
+/**
+ * Plausible token counts so cost tracking and budgets can be exercised
+ * offline: ~4 characters per text token, 258 per input image, and output
+ * sized like the real models' (1290 per image, ~32 per second of speech).
+ */
+function mockUsage(parts: ContentPart[], response: GenerateResponse): TokenUsage {
+    const images = parts.filter(p => 'inlineData' in p).length;
+    const textTokens = (text: string | null) => Math.ceil((text || '').length / 4);
+    const audioSeconds = response.audio ? (base64ByteLength(response.audio.data) - 44) / (PLACEHOLDER_SAMPLE_RATE * 2) : 0;
+    return {
+        inputTokens: textTokens(requestText(parts)) + images * 258,
+        outputTokens: textTokens(response.text) + (response.imageBase64 ? 1290 : 0) + Math.ceil(audioSeconds * 32),
+    };
+}
+
+const base64ByteLength = (data: string) => Math.floor(data.length * 3 / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0);
+
+/** Roughly conversational pace (~2.5 words/s) plus a breath, so timing downstream stays realistic. */
+function mockVoice({ line = '' }: GenerateInputs, voice: string | undefined): { data: string; mimeType: string } {
+    const words = line.split(/\s+/).filter(Boolean).length;
+    const seconds = Math.max(1, words / 2.5 + 0.4);
+    const frequency = 110 + (fnv1a(voice || 'default') % 12) * 20;
+    return { data: bytesToBase64(encodeWav(placeholderSpeechPcm(seconds, frequency), PLACEHOLDER_SAMPLE_RATE)), mimeType: 'audio/wav' };
+}
+
+function mockResponse({ stage, parts, aspectRatio = '16:9', voice, inputs = {} }: GenerateRequest): GenerateResponse {
+    const text = requestText(parts);
+    const seed = fnv1a(text);
+
+    switch (stage) {
+        case 'bible':
+            return { text: mockBible(inputs), imageBase64: null };
+        case 'analysis':
+            return { text: mockAnalysis(seed), imageBase64: null };
+        case 'identify':
+            return { text: mockIdentify(inputs, seed), imageBase64: null };
+        case 'prompt':
+            return { text: mockPrompt(seed), imageBase64: null };
+        case 'image': {
+            const [width, height] = PLACEHOLDER_SIZES[aspectRatio];
+            return { text: null, imageBase64: bytesToBase64(encodePlaceholderPng(width, height, seed)) };
+        }
+        case 'verify':
+            return { text: mockVerify(seed), imageBase64: null };
+        case 'voice':
+            return { text: null, imageBase64: null, audio: mockVoice(inputs, voice) };
+    }
+}
+
+export function createMockProvider(): ModelProvider {
+    return {
+        id: 'mock',
+        label: 'Offline Mock',
+        rateLimited: false,
+        async generate(request: GenerateRequest): Promise<GenerateResponse> {
+            request.signal?.throwIfAborted();
+            const response = mockResponse(request);
+            return { ...response, usage: mockUsage(request.parts, response) };
+        },
+    };
+}
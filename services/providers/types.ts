@@ -0,0 +1,75 @@
+/**
+ * Contract every model backend implements. The service layer only speaks in
+ * these terms, so swapping Gemini for the offline mock (or anything else) is a
+ * runtime setting rather than a code change.
+ */
+
+export type ModelStage = 'bible' | 'analysis' | 'identify' | 'prompt' | 'image' | 'voice' | 'verify';
+
+export type AspectRatio = '1:1' | '2:3' | '3:2' | '3:4' | '4:3' | '4:5' | '5:4' | '9:16' | '16:9' | '21:9';
+
+export type ContentPart =
+    | { text: string }
+    | { inlineData: { data: string; mimeType: string } };
+
+export interface GenerateRequest {
+    stage: ModelStage;
+    model: string;
+    parts: ContentPart[];
+    /** Ask the backend for a JSON-only response. */
+    json?: boolean;
+    /** Only meaningful for the image stage. */
+    aspectRatio?: AspectRatio;
+    /** Backend voice name; only meaningful for the voice stage. */
+    voice?: string;
+    /** Cancels the call; the provider rejects once it fires. */
+    signal?: AbortSignal;
+    /** What the prompt was rendered from, for backends that answer without reading it. */
+    inputs?: GenerateInputs;
+}
+
+/**
+ * Structured inputs behind a request's rendered prompt. Prompt templates can
+ * be overridden, so the offline mock answers from these rather than parsing
+ * the prompt text; real models ignore them.
+ */
+export interface GenerateInputs {
+    /** bible: the avatar filenames. */
+    filenames?: string[];
+    /** identify: everyone in the bible, with their avatar. */
+    cast?: { name: string; avatarFilename: string | null }[];
+    /** identify: bible characters named in the scene text. */
+    sceneCharacters?: string[];
+    /** voice: the line to speak. */
+    line?: string;
+}
+
+export interface TokenUsage {
+    inputTokens: number;
+    /** Everything billed as output: text, thinking, image and audio tokens. */
+    outputTokens: number;
+}
+
+export interface GenerateResponse {
+    text: string | null;
+    imageBase64: string | null;
+    /** Token counts reported by the backend, when it reports them. */
+    usage?: TokenUsage;
+    /** Speech from the voice stage, as returned by the backend (may be raw PCM). */
+    audio?: { data: string; mimeType: string } | null;
+}
+
+export interface ModelProvider {
+    id: ProviderId;
+    label: string;
+    /** Whether calls count against the requests-per-minute limit; false for backends with no quota, like the mock. */
+    rateLimited: boolean;
+    generate(request: GenerateRequest): Promise<GenerateResponse>;
+}
+
+export type ProviderId = 'gemini' | 'mock';
+
+export interface ProviderSettings {
+    providerId: ProviderId;
+    models: Record<ModelStage, string>;
+}
@@ -0,0 +1,81 @@
+/**
+ * Operator control over a running stage. The active run owns an abort
+ * controller for the whole run and one per frame in flight; model calls look
+ * up the signal for their frame here, so cancelling or skipping aborts the
+ * requests already on the wire. Pausing only stops new frames from starting.
+ */
+
+export interface RunControl {
+    /** Aborts when the run is cancelled. */
+    readonly signal: AbortSignal;
+    readonly cancelled: boolean;
+    readonly pauseRequested: boolean;
+    cancel(): void;
+    requestPause(): void;
+    /** Registers a frame as in flight; its signal aborts on cancel or skip. */
+    startFrame(frame: string): AbortSignal;
+    endFrame(frame: string): void;
+    skip(frame: string): void;
+    isSkipped(frame: string): boolean;
+    /** The frame's signal while it is in flight, otherwise the run's. */
+    signalFor(frame?: string): AbortSignal;
+}
+
+export function createRunControl(): RunControl {
+    const run = new AbortController();
+    const frames = new Map<string, AbortController>();
+    const skipped = new Set<string>();
+    let pauseRequested = false;
+
+    return {
+        signal: run.signal,
+        get cancelled() {
+            return run.signal.aborted;
+        },
+        get pauseRequested() {
+            return pauseRequested;
+        },
+        cancel() {
+            run.abort(new DOMException('Run cancelled.', 'AbortError'));
+            frames.forEach(frame => frame.abort(run.signal.reason));
+        },
+        requestPause() {
+            pauseRequested = true;
+        },
+        startFrame(frame) {
+            const controller = new AbortController();
+            if (run.signal.aborted) controller.abort(run.signal.reason);
+            frames.set(frame, controller);
+            return controller.signal;
+        },
+        endFrame(frame) {
+            frames.delete(frame);
+        },
+        skip(frame) {
+            skipped.add(frame);
+            frames.get(frame)?.abort(new DOMException('Frame skipped.', 'AbortError'));
+        },
+        isSkipped(frame) {
+            return skipped.has(frame);
+        },
+        signalFor(frame) {
+            return (frame && frames.get(frame)?.signal) || run.signal;
+        },
+    };
+}
+
+let activeRun: RunControl | null = null;
+
+/** The run model calls are attributed to; null outside a run (e.g. review regenerations). */
+export function setActiveRun(control: RunControl | null) {
+    activeRun = control;
+}
+
+export function getActiveRun(): RunControl | null {
+    return activeRun;
+}
+
+/** Signal for a model call made on behalf of `frame`, if a run is active. */
+export function signalFor(frame?: string): AbortSignal | undefined {
+    return activeRun?.signalFor(frame);
+}
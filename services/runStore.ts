@@ -0,0 +1,128 @@
+import { FrameFormat } from './frameFormatService';
+import { DuplicateEntry } from './ingestService';
+import { LogEvent } from './logService';
+import { FramePlan } from './planService';
+import { StyleLibrary } from './styleService';
+import { UsageEntry } from './usageService';
+import { AnalyzedCharacter, CastMapping, RejuvenatedItem, RunInterruption, RunStage, Script, SourceImage, TextFile } from '../types';
+
+/**
+ * IndexedDB checkpointing for production runs. The run inputs are stored as a
+ * single record that is rewritten at stage boundaries, while each frame result
+ * gets its own record so a checkpoint costs one small write per frame.
+ */
+
+const DB_NAME = 'bs14';
+const DB_VERSION = 1;
+const RUN_STORE = 'runs';
+const RESULT_STORE = 'results';
+const CURRENT_RUN = 'current';
+
+export interface RunCheckpoint {
+    stage: RunStage;
+    avatars: Record<string, SourceImage>;
+    processedImages: Record<string, SourceImage>;
+    textFiles: TextFile[];
+    /** Same-named entries dropped at ingest, for the ingest report. */
+    duplicates?: DuplicateEntry[];
+    fullScript: TextFile | null;
+    /** Imported Fountain/FDX screenplay, when the archives carried one. */
+    screenplay?: { name: string; script: Script } | null;
+    storyMap: TextFile | null;
+    /** Beats assigned by hand in the story panel, by frame; the rest follow the automatic alignment. */
+    beatOverrides?: Record<string, string>;
+    style: string;
+    /** Style presets and the frame ranges and tags they apply to. */
+    styles?: StyleLibrary;
+    characterBible: AnalyzedCharacter[];
+    castMapping?: CastMapping;
+    frameFormat?: FrameFormat;
+    /** Token ledger so a resumed run keeps counting against the same budget. */
+    usage?: UsageEntry[];
+    /** Event log up to the last stage boundary, so it survives a reload. */
+    log?: LogEvent[];
+    /** Dry-run plan; when set, processing generates images from it. */
+    plan?: FramePlan[] | null;
+    /** Set while the run is PAUSED, CANCELLED or FAILED. */
+    interruption?: RunInterruption | null;
+    updatedAt: string;
+}
+
+export interface SavedRun {
+    checkpoint: RunCheckpoint;
+    results: RejuvenatedItem[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(RUN_STORE)) db.createObjectStore(RUN_STORE);
+                if (!db.objectStoreNames.contains(RESULT_STORE)) db.createObjectStore(RESULT_STORE, { keyPath: 'originalName' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+async function withStores<T>(
+    mode: IDBTransactionMode,
+    body: (runs: IDBObjectStore, results: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction([RUN_STORE, RESULT_STORE], mode);
+        const request = body(tx.objectStore(RUN_STORE), tx.objectStore(RESULT_STORE));
+        tx.oncomplete = () => resolve(request ? request.result : undefined);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+/** Writes the run inputs and current stage. Frame results are not touched. */
+export async function saveCheckpoint(checkpoint: Omit<RunCheckpoint, 'updatedAt'>): Promise<void> {
+    await withStores('readwrite', runs => {
+        runs.put({ ...checkpoint, updatedAt: new Date().toISOString() }, CURRENT_RUN);
+    });
+}
+
+/** Updates the stage and editor-owned fields of the saved run without rewriting the inputs. */
+export async function updateCheckpoint(patch: Partial<Pick<RunCheckpoint, 'stage' | 'characterBible' | 'style' | 'styles' | 'castMapping' | 'frameFormat' | 'beatOverrides' | 'usage' | 'log' | 'plan' | 'interruption'>>): Promise<void> {
+    await withStores('readwrite', runs => {
+        const request = runs.get(CURRENT_RUN);
+        request.onsuccess = () => {
+            if (request.result) {
+                runs.put({ ...request.result, ...patch, updatedAt: new Date().toISOString() }, CURRENT_RUN);
+            }
+        };
+    });
+}
+
+export async function saveFrameResult(item: RejuvenatedItem): Promise<void> {
+    await withStores('readwrite', (_runs, results) => {
+        results.put(item);
+    });
+}
+
+export async function loadRun(): Promise<SavedRun | null> {
+    const checkpoint = await withStores<RunCheckpoint | undefined>('readonly', runs => runs.get(CURRENT_RUN));
+    if (!checkpoint) return null;
+    const results = await withStores<RejuvenatedItem[]>('readonly', (_runs, store) => store.getAll());
+    return { checkpoint, results: results || [] };
+}
+
+export async function clearRun(): Promise<void> {
+    await withStores('readwrite', (runs, results) => {
+        runs.clear();
+        results.clear();
+    });
+}
@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { configureScheduler, DEFAULT_SCHEDULER_SETTINGS, scheduleModelCall } from './scheduler';
+
+describe('scheduleModelCall rate limit', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        configureScheduler({ ...DEFAULT_SCHEDULER_SETTINGS, requestsPerMinute: 60, maxRetries: 0 });
+    });
+    afterEach(() => vi.useRealTimers());
+
+    it('gives back the slots of calls aborted while waiting', async () => {
+        const started: number[] = [];
+        const call = (signal?: AbortSignal) => scheduleModelCall('test', async () => started.push(Date.now()), signal);
+        const t0 = Date.now();
+
+        await call();
+        const controller = new AbortController();
+        const aborted = [call(controller.signal), call(controller.signal), call(controller.signal)];
+        controller.abort(new Error('cancelled'));
+        await Promise.allSettled(aborted);
+
+        const next = call();
+        await vi.advanceTimersByTimeAsync(1000);
+        await next;
+        expect(started.map(t => t - t0)).toEqual([0, 1000]);
+    });
+
+    it('skips the limit for calls that are not rate limited', async () => {
+        const t0 = Date.now();
+        const times = await Promise.all([1, 2, 3].map(() => scheduleModelCall('mock', async () => Date.now() - t0, undefined, false)));
+        expect(times).toEqual([0, 0, 0]);
+    });
+});
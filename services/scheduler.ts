@@ -0,0 +1,122 @@
+import { isTransientError } from './errors';
+
+/**
+ * Throttling for the production run: a frame-level worker pool plus a shared
+ * requests-per-minute limiter and exponential-backoff retries for every model
+ * call.
+ */
+
+export interface SchedulerSettings {
+    /** Frames processed in parallel. */
+    concurrency: number;
+    /** Model calls started per minute across all frames. 0 disables the limit. */
+    requestsPerMinute: number;
+    /** Extra attempts for a transient failure. */
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+    concurrency: 2,
+    requestsPerMinute: 30,
+    maxRetries: 4,
+    baseDelayMs: 2000,
+    maxDelayMs: 60000,
+};
+
+export type RetryListener = (info: { label: string; attempt: number; delayMs: number; error: unknown }) => void;
+
+/** Resolves after `ms`, or rejects with the signal's reason as soon as it aborts. */
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+let settings: SchedulerSettings = DEFAULT_SCHEDULER_SETTINGS;
+/** Start time of the last slot a call actually used. */
+let lastSlot = -Infinity;
+/** Slots claimed by calls still waiting for them, in order. */
+const reserved: number[] = [];
+let retryListener: RetryListener | null = null;
+
+export function configureScheduler(next: SchedulerSettings) {
+    settings = { ...DEFAULT_SCHEDULER_SETTINGS, ...next };
+}
+
+export function getSchedulerSettings(): SchedulerSettings {
+    return settings;
+}
+
+export function setRetryListener(listener: RetryListener | null) {
+    retryListener = listener;
+}
+
+/**
+ * Waits until the next requests-per-minute slot is free and claims it. A call
+ * aborted while waiting gives its slot back, so a resumed or re-run batch does
+ * not queue behind requests that will never be made.
+ */
+async function acquireSlot(signal?: AbortSignal) {
+    if (settings.requestsPerMinute <= 0) return;
+    signal?.throwIfAborted();
+    const interval = 60000 / settings.requestsPerMinute;
+    const now = Date.now();
+    const slot = Math.max(now, lastSlot + interval, (reserved[reserved.length - 1] ?? -Infinity) + interval);
+    if (slot > now) {
+        reserved.push(slot);
+        try {
+            await sleep(slot - now, signal);
+        } finally {
+            reserved.splice(reserved.indexOf(slot), 1);
+        }
+    }
+    lastSlot = Math.max(lastSlot, slot);
+}
+
+/** Full-jitter exponential backoff: a random delay up to base * 2^attempt, capped. */
+export function backoffDelay(attempt: number, { baseDelayMs, maxDelayMs }: Pick<SchedulerSettings, 'baseDelayMs' | 'maxDelayMs'>): number {
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Runs a model call under the rate limit, retrying transient failures. The
+ * last error is rethrown once retries are exhausted or the error is permanent.
+ * An aborted `signal` stops the wait for a slot, the call and any retry.
+ * Calls to a backend without a quota pass `rateLimited: false` and skip the limit.
+ */
+export async function scheduleModelCall<T>(label: string, task: () => Promise<T>, signal?: AbortSignal, rateLimited = true): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        if (rateLimited) await acquireSlot(signal);
+        signal?.throwIfAborted();
+        try {
+            return await task();
+        } catch (error) {
+            if (signal?.aborted || attempt >= settings.maxRetries || !isTransientError(error)) throw error;
+            const delayMs = backoffDelay(attempt, settings);
+            retryListener?.({ label, attempt: attempt + 1, delayMs, error });
+            await sleep(delayMs, signal);
+        }
+    }
+}
+
+/** Runs `worker` over `items` with at most `concurrency` of them in flight. */
+export async function mapConcurrent<T>(items: T[], concurrency: number, worker: (item: T, index: number) => Promise<void>): Promise<void> {
+    let cursor = 0;
+    const lanes = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, async () => {
+        while (cursor < items.length) {
+            const index = cursor++;
+            await worker(items[index], index);
+        }
+    });
+    await Promise.all(lanes);
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { RejuvenatedItem } from '../types';
+import { deliveredNames, productionFiles } from './exportService';
+import { buildScreening } from './screeningService';
+import { DEFAULT_STYLE_LIBRARY } from './styleService';
+
+const item = (originalName: string, review: RejuvenatedItem['review'] = 'ACCEPTED'): RejuvenatedItem => ({
+    originalName, newName: '', base64: 'AAAA', prompt: '', characterName: 'Jane', avatarFilename: null, status: 'DONE', review, meta: '',
+});
+
+describe('buildScreening', () => {
+    it('names each screened frame as the accepted-only archive delivers it', () => {
+        const results = [item('scene1.jpg', 'REJECTED'), item('scene1.png'), item('scene2.png')];
+        const names = deliveredNames(['scene1.jpg', 'scene1.png', 'scene2.png', 'scene3.png']);
+        const screening = buildScreening(results, names, {});
+        // As the EXPORT ACCEPTED button packages it.
+        const files = productionFiles({ results: results.filter(r => r.review === 'ACCEPTED'), names, bible: [], script: '', style: '', styles: DEFAULT_STYLE_LIBRARY });
+        const archived = new Set(files.filter(f => f.base64).map(f => f.path));
+        expect(screening.outputNames).toHaveLength(2);
+        for (const name of screening.outputNames) expect(archived.has(name)).toBe(true);
+    });
+});
@@ -0,0 +1,92 @@
+import { GeneratedAudio, GeneratedImage, RejuvenatedItem, SceneElement, Script } from '../types';
+import { DeliveredNames } from './exportService';
+import { compareFrameNames, ParsedSidecar, fileStem } from './sidecarService';
+import { findSceneElementIndex } from './screenplayService';
+
+/**
+ * Builds what the PresentationPlayer needs from a finished run: a screening
+ * script with exactly one scene element per frame (so scene index = frame
+ * order), the frame images, and any per-scene audio matched by basename.
+ */
+
+export const AUDIO_EXTENSIONS = ['mp3', 'wav', 'ogg', 'm4a', 'aac', 'webm', 'flac'];
+
+export interface Screening {
+    script: Script;
+    images: GeneratedImage[];
+    /** Frame filename for each scene index. */
+    frameNames: string[];
+    /** The delivered output for each scene index, at its production archive path. */
+    outputNames: string[];
+}
+
+const DIALOGUE_LINE = /^([A-Z][A-Z0-9 .'\-]{0,40}?)(?:\s*\([^)]*\))?\s*:\s*(.+)$/;
+
+/**
+ * Reads a sidecar's scene text as a scene element: "NAME: line" or an
+ * all-caps cue followed by lines becomes dialogue, anything else is action.
+ */
+export function sidecarToElement(body: string): SceneElement {
+    const lines = body.split('\n').map(l => l.trim()).filter(Boolean);
+    if (lines.length === 0) return { type: 'action', content: '' };
+
+    const inline = lines[0].match(DIALOGUE_LINE);
+    if (inline) {
+        return { type: 'dialogue_block', character: inline[1].trim(), elements: [{ type: 'dialogue', content: inline[2].trim() }] };
+    }
+
+    const cue = lines[0].replace(/\s*\([^)]*\)\s*$/, '');
+    if (lines.length > 1 && /[A-Z]/.test(cue) && cue === cue.toUpperCase() && cue.length <= 40) {
+        const elements = lines.slice(1).map(line => (
+            /^\(.*\)$/.test(line) ? { type: 'parenthetical' as const, content: line } : { type: 'dialogue' as const, content: line }
+        ));
+        return { type: 'dialogue_block', character: cue, elements };
+    }
+
+    return { type: 'action', content: lines.join(' ') };
+}
+
+/**
+ * Frames play in filename order. Rejected and failed frames are left out. When
+ * a screenplay was imported, each frame is captioned with its best-matching
+ * screenplay element; otherwise with its own sidecar text. `names` are the
+ * delivered names over every source frame, as the production archive uses.
+ */
+export function buildScreening(results: RejuvenatedItem[], names: Map<string, DeliveredNames>, sidecars: Record<string, ParsedSidecar>, screenplay?: Script | null): Screening {
+    const frames = results
+        .filter(item => item.status === 'DONE' && item.base64 && item.review !== 'REJECTED')
+        .sort((a, b) => compareFrameNames(a.originalName, b.originalName));
+
+    const scene_elements = frames.map<SceneElement>(item => {
+        const body = sidecars[item.originalName]?.body || '';
+        if (screenplay) {
+            const index = findSceneElementIndex(screenplay, body);
+            if (index !== -1) return screenplay.scene_elements[index];
+        }
+        return sidecarToElement(body);
+    });
+
+    return {
+        script: { scene_elements },
+        images: frames.map((item, sceneIndex) => ({ sceneIndex, imageUrl: `data:image/png;base64,${item.base64}` })),
+        frameNames: frames.map(item => item.originalName),
+        outputNames: frames.map(item => names.get(item.originalName)!.frame),
+    };
+}
+
+export function isAudioFile(name: string): boolean {
+    return AUDIO_EXTENSIONS.includes(name.toLowerCase().split('.').pop() || '');
+}
+
+/** Pairs audio files with frames by basename (scene012.mp3 ↔ scene012.png). */
+export function matchSceneAudio(files: File[], frameNames: string[]): { audio: GeneratedAudio[]; unmatched: string[] } {
+    const indexByStem = new Map(frameNames.map((name, index) => [fileStem(name).toLowerCase(), index]));
+    const audio: GeneratedAudio[] = [];
+    const unmatched: string[] = [];
+    for (const file of files) {
+        const sceneIndex = indexByStem.get(fileStem(file.name).toLowerCase());
+        if (sceneIndex === undefined) unmatched.push(file.name);
+        else audio.push({ sceneIndex, audioBlob: file });
+    }
+    return { audio, unmatched };
+}
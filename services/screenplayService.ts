@@ -0,0 +1,202 @@
+import { SceneElement, Script, TextFile } from '../types';
+
+/**
+ * Screenplay importers. Fountain (https://fountain.io) and Final Draft (.fdx)
+ * are both reduced to the app's `Script`: scene headings, transitions and
+ * action become `action` elements, and a character cue plus its dialogue and
+ * parentheticals become one `dialogue_block`.
+ *
+ * The FDX reader is a small regex scanner rather than DOMParser so it runs
+ * the same in the browser and under Node.
+ */
+
+export const SCREENPLAY_EXTENSIONS = ['fountain', 'fdx'];
+
+type DialoguePart = Extract<SceneElement, { type: 'dialogue_block' }>['elements'][number];
+
+const SCENE_HEADING = /^(?:INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]/i;
+const TRANSITION = /^[A-Z\s]+TO:$/;
+const CHARACTER_EXTENSION = /\s*\((?:V\.O\.|O\.S\.|O\.C\.|CONT'D|CONT’D|[A-Z.' ]+)\)\s*/g;
+
+export function isScreenplayFile(name: string): boolean {
+    const ext = name.toLowerCase().split('.').pop() || '';
+    return SCREENPLAY_EXTENSIONS.includes(ext);
+}
+
+/** Strips Fountain emphasis markers (*italic*, **bold**, _underline_). */
+const stripEmphasis = (text: string) => text.replace(/(\*{1,3}|_)(\S(?:.*?\S)?)\1/g, '$2');
+
+export const cleanCharacterName = (cue: string) =>
+    cue.replace(/^@/, '').replace(/\^$/, '').replace(CHARACTER_EXTENSION, ' ').trim();
+
+function createScriptBuilder() {
+    const elements: SceneElement[] = [];
+    return {
+        action(content: string) {
+            const text = content.trim();
+            if (text) elements.push({ type: 'action', content: text });
+        },
+        dialogue(character: string, parts: DialoguePart[]) {
+            const merged: DialoguePart[] = [];
+            for (const part of parts) {
+                const content = part.content.trim();
+                if (!content) continue;
+                const last = merged[merged.length - 1];
+                if (last && last.type === 'dialogue' && part.type === 'dialogue') last.content += ` ${content}`;
+                else merged.push({ type: part.type, content });
+            }
+            if (character && merged.length > 0) {
+                elements.push({ type: 'dialogue_block', character, elements: merged });
+            }
+        },
+        build(): Script {
+            return { scene_elements: elements };
+        },
+    };
+}
+
+function isCharacterCue(line: string): boolean {
+    if (line.startsWith('@')) return true;
+    const name = line.replace(CHARACTER_EXTENSION, '').replace(/\^$/, '').trim();
+    return /[A-Z]/.test(name) && name === name.toUpperCase() && !/^[!>~=#.]/.test(name) && !TRANSITION.test(name);
+}
+
+export function parseFountain(source: string): Script {
+    let text = source.replace(/\r\n?/g, '\n')
+        .replace(/\/\*[\s\S]*?\*\//g, '')   // boneyard
+        .replace(/\[\[[\s\S]*?\]\]/g, '');  // notes
+
+    // Title page: leading "Key: value" block up to the first blank line.
+    const lines = text.split('\n');
+    if (/^[A-Za-z][\w ]*:/.test(lines[0] || '')) {
+        const end = lines.findIndex(line => line.trim() === '');
+        text = end === -1 ? '' : lines.slice(end + 1).join('\n');
+    }
+
+    const builder = createScriptBuilder();
+    const blocks = text.split(/\n\s*\n/).map(block => block.split('\n').filter(line => line.trim() !== ''));
+
+    for (const block of blocks) {
+        if (block.length === 0) continue;
+        const first = block[0].trim();
+
+        if (/^(#|=)/.test(first)) continue; // sections, synopses and page breaks
+
+        if (first.startsWith('!')) {
+            builder.action(stripEmphasis([first.slice(1), ...block.slice(1)].join('\n')));
+        } else if ((SCENE_HEADING.test(first) || /^\.[^.]/.test(first)) && block.length === 1) {
+            builder.action(first.replace(/^\./, '').replace(/\s*#[^#]+#$/, '').toUpperCase());
+        } else if ((TRANSITION.test(first) || (first.startsWith('>') && !first.endsWith('<'))) && block.length === 1) {
+            builder.action(first.replace(/^>\s*/, ''));
+        } else if (block.length > 1 && isCharacterCue(first)) {
+            const parts = block.slice(1).map<DialoguePart>(line => {
+                const content = stripEmphasis(line.trim());
+                return /^\(.*\)$/.test(content) ? { type: 'parenthetical', content } : { type: 'dialogue', content };
+            });
+            builder.dialogue(cleanCharacterName(first), parts);
+        } else {
+            builder.action(stripEmphasis(block.map(line => line.replace(/^>\s*|\s*<$/g, '')).join('\n')));
+        }
+    }
+
+    return builder.build();
+}
+
+const decodeXml = (text: string) => text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+
+export function parseFdx(xml: string): Script {
+    const builder = createScriptBuilder();
+    const content = xml.match(/<Content\b[^>]*>([\s\S]*?)<\/Content>/)?.[1] || xml;
+    const paragraphs = Array.from(content.matchAll(/<Paragraph\b([^>]*)>([\s\S]*?)<\/Paragraph>/g), match => ({
+        type: match[1].match(/\bType="([^"]*)"/)?.[1] || 'Action',
+        text: decodeXml(Array.from(match[2].matchAll(/<Text\b[^>]*>([\s\S]*?)<\/Text>/g), t => t[1]).join('')).trim(),
+    }));
+
+    let character = '';
+    let parts: DialoguePart[] = [];
+    const flush = () => {
+        if (character) builder.dialogue(character, parts);
+        character = '';
+        parts = [];
+    };
+
+    for (const { type, text } of paragraphs) {
+        switch (type) {
+            case 'Character':
+                flush();
+                character = cleanCharacterName(text);
+                break;
+            case 'Dialogue':
+                parts.push({ type: 'dialogue', content: text });
+                break;
+            case 'Parenthetical':
+                parts.push({ type: 'parenthetical', content: text });
+                break;
+            case 'Scene Heading':
+                flush();
+                builder.action(text.toUpperCase());
+                break;
+            default: // Action, Transition, Shot, General, Cast List...
+                flush();
+                builder.action(text);
+        }
+    }
+    flush();
+    return builder.build();
+}
+
+export function parseScreenplay(file: TextFile): Script {
+    return file.name.toLowerCase().endsWith('.fdx') ? parseFdx(file.content) : parseFountain(file.content);
+}
+
+export function formatSceneElement(element: SceneElement): string {
+    if (element.type === 'action') return element.content || '';
+    return `${element.character.toUpperCase()}\n${element.elements.map(part => `  ${part.content}`).join('\n')}`;
+}
+
+/** Plain screenplay text, used as full-script context for the model. */
+export function scriptToText(script: Script): string {
+    return script.scene_elements.map(formatSceneElement).join('\n\n');
+}
+
+const tokens = (text: string) => new Set(text.toLowerCase().match(/[a-z0-9']{3,}/g) || []);
+
+function elementText(element: SceneElement): string {
+    return element.type === 'action' ? element.content || '' : `${element.character} ${element.elements.map(e => e.content).join(' ')}`;
+}
+
+/**
+ * Index of the element that shares the most words with the scene text, or -1
+ * when nothing overlaps.
+ */
+export function findSceneElementIndex(script: Script, sceneText: string): number {
+    const wanted = tokens(sceneText);
+    if (wanted.size === 0) return -1;
+    let best = -1;
+    let bestScore = 0;
+    script.scene_elements.forEach((element, index) => {
+        const have = tokens(elementText(element));
+        let shared = 0;
+        have.forEach(token => { if (wanted.has(token)) shared++; });
+        const score = shared / Math.max(1, Math.min(have.size, wanted.size));
+        if (score > bestScore) {
+            best = index;
+            bestScore = score;
+        }
+    });
+    return bestScore >= 0.3 ? best : -1;
+}
+
+/** The screenplay around the element matching the scene text, `radius` elements either side. */
+export function sceneContext(script: Script, sceneText: string, radius = 6): string {
+    const index = findSceneElementIndex(script, sceneText);
+    if (index === -1) return '';
+    return scriptToText({ scene_elements: script.scene_elements.slice(Math.max(0, index - radius), index + radius + 1) });
+}
@@ -0,0 +1,195 @@
+import { TextFile } from '../types';
+import { isPromptTemplateFile } from './promptTemplateService';
+
+/**
+ * Scene sidecar format (one `.txt` per frame, same basename as the image):
+ *
+ *     FRAME: scene012.png
+ *     SCENE: 12
+ *     CHARACTERS: Boss, Jane Doe
+ *     TAGS: night, exterior
+ *     ---
+ *     BOSS: You were told to come alone.
+ *     Jane steps out of the rain.
+ *
+ * Header lines are `KEY: value` pairs up to a line containing only `---`.
+ * Keys are case-insensitive; unknown keys are kept in `fields`. Everything
+ * after the separator is the scene text, and its first non-empty line is the
+ * line used for the reconstructed script (hs4000.txt).
+ *
+ * Sidecars without a `---` separator are read in the legacy layout: three
+ * unnamed header lines followed by the scene text. They are reported so they
+ * can be migrated.
+ */
+
+export const SIDECAR_SEPARATOR = '---';
+
+/** Text files in the archive that have a role of their own and are never sidecars. */
+export const RESERVED_TEXT_FILES = new Set(['story.txt', 'style.txt', 'hs4000.txt']);
+
+const KNOWN_FIELDS = new Set(['frame', 'scene', 'characters', 'tags']);
+const HEADER_LINE = /^([A-Za-z][\w -]*):\s*(.*)$/;
+
+export interface ParsedSidecar {
+    fileName: string;
+    /** Original file content, kept verbatim for frame metadata. */
+    raw: string;
+    legacy: boolean;
+    frame?: string;
+    scene?: string;
+    characters: string[];
+    tags: string[];
+    /** Every header field, lower-cased key → value. */
+    fields: Record<string, string>;
+    body: string;
+    scriptLine: string;
+    problems: string[];
+}
+
+export interface IngestReport {
+    /** Frame filename → its sidecar, for frames that have exactly one. */
+    sidecars: Record<string, ParsedSidecar>;
+    framesWithoutSidecar: string[];
+    orphanedSidecars: string[];
+    malformed: { fileName: string; problems: string[] }[];
+    duplicateFrames: string[][];
+    duplicateSidecars: string[][];
+}
+
+/** Filename without folders or extension, used to pair frames with sidecars. */
+export const fileStem = (path: string) => path.split('/').pop()!.replace(/\.[^.]+$/, '');
+
+/** Frame order: by filename, with runs of digits compared as numbers so scene2 comes before scene10. */
+export const compareFrameNames = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+const splitList = (value: string | undefined) => (value || '').split(',').map(v => v.trim()).filter(Boolean);
+
+const firstLine = (text: string) => text.split('\n').map(l => l.trim()).find(Boolean) || '';
+
+export function isSidecarCandidate(file: TextFile): boolean {
+    const base = file.name.split('/').pop()!.toLowerCase();
+    return base.endsWith('.txt') && !RESERVED_TEXT_FILES.has(base) && !isPromptTemplateFile(file.name);
+}
+
+export function parseSidecar(file: TextFile): ParsedSidecar {
+    const lines = file.content.replace(/\r\n?/g, '\n').split('\n');
+    const separator = lines.findIndex(line => line.trim() === SIDECAR_SEPARATOR);
+    const problems: string[] = [];
+
+    if (separator === -1) {
+        const body = lines.slice(3).join('\n');
+        if (lines.length < 4) problems.push('Legacy sidecar has fewer than 4 lines.');
+        else problems.push(`Legacy header (no "${SIDECAR_SEPARATOR}" separator).`);
+        return {
+            fileName: file.name,
+            raw: file.content,
+            legacy: true,
+            characters: [],
+            tags: [],
+            fields: {},
+            body,
+            scriptLine: lines[3]?.trim() || '',
+            problems,
+        };
+    }
+
+    const fields: Record<string, string> = {};
+    lines.slice(0, separator).forEach((line, index) => {
+        if (!line.trim()) return;
+        const match = line.match(HEADER_LINE);
+        if (!match) {
+            problems.push(`Header line ${index + 1} is not "KEY: value".`);
+            return;
+        }
+        const key = match[1].trim().toLowerCase();
+        if (key in fields) problems.push(`Header field "${match[1]}" appears more than once.`);
+        fields[key] = match[2].trim();
+    });
+
+    const body = lines.slice(separator + 1).join('\n').trim();
+    if (!body) problems.push('Scene text is empty.');
+
+    const frame = fields.frame || undefined;
+    if (frame && fileStem(frame) !== fileStem(file.name)) {
+        problems.push(`FRAME "${frame}" does not match the sidecar name.`);
+    }
+    if (fields.scene !== undefined && !/^\d+[A-Za-z]?$/.test(fields.scene)) {
+        problems.push(`SCENE "${fields.scene}" is not a scene number.`);
+    }
+    const unknown = Object.keys(fields).filter(key => !KNOWN_FIELDS.has(key));
+    if (unknown.length > 0) problems.push(`Unknown header fields: ${unknown.join(', ')}.`);
+
+    return {
+        fileName: file.name,
+        raw: file.content,
+        legacy: false,
+        frame,
+        scene: fields.scene || undefined,
+        characters: splitList(fields.characters),
+        tags: splitList(fields.tags).map(t => t.toLowerCase()),
+        fields,
+        body,
+        scriptLine: firstLine(body),
+        problems,
+    };
+}
+
+function groupByStem(names: string[]): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+    for (const name of names) {
+        const stem = fileStem(name).toLowerCase();
+        groups.set(stem, [...(groups.get(stem) || []), name]);
+    }
+    return groups;
+}
+
+/**
+ * Pairs every frame with its sidecar by exact basename and collects everything
+ * an editor should look at before the run starts.
+ */
+export function buildIngestReport(frameNames: string[], texts: TextFile[]): IngestReport {
+    const sidecarFiles = texts.filter(isSidecarCandidate);
+    const frameGroups = groupByStem(frameNames);
+    const sidecarGroups = groupByStem(sidecarFiles.map(f => f.name));
+    const parsed = new Map(sidecarFiles.map(f => [f.name, parseSidecar(f)]));
+
+    const report: IngestReport = {
+        sidecars: {},
+        framesWithoutSidecar: [],
+        orphanedSidecars: [],
+        malformed: [],
+        duplicateFrames: [...frameGroups.values()].filter(g => g.length > 1),
+        duplicateSidecars: [...sidecarGroups.values()].filter(g => g.length > 1),
+    };
+
+    for (const [stem, frames] of frameGroups) {
+        const candidates = sidecarGroups.get(stem);
+        if (!candidates) {
+            report.framesWithoutSidecar.push(...frames);
+            continue;
+        }
+        // Ambiguous pairings are reported as duplicates and left unpaired rather than guessed.
+        if (frames.length > 1 || candidates.length > 1) continue;
+        report.sidecars[frames[0]] = parsed.get(candidates[0])!;
+    }
+
+    for (const [stem, sidecars] of sidecarGroups) {
+        if (!frameGroups.has(stem)) report.orphanedSidecars.push(...sidecars);
+    }
+
+    for (const sidecar of parsed.values()) {
+        if (sidecar.problems.length > 0) report.malformed.push({ fileName: sidecar.fileName, problems: sidecar.problems });
+    }
+
+    report.framesWithoutSidecar.sort(compareFrameNames);
+    report.orphanedSidecars.sort(compareFrameNames);
+    return report;
+}
+
+export function countIngestIssues(report: IngestReport): number {
+    return report.framesWithoutSidecar.length
+        + report.orphanedSidecars.length
+        + report.malformed.length
+        + report.duplicateFrames.length
+        + report.duplicateSidecars.length;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedSidecar } from './sidecarService';
+import { alignFramesToBeats, parseStoryMap, StoryStructure } from './storyService';
+
+const STORY = `ACT I: The Heist
+- Jane cases the bank at dawn [calm]
+- The crew argues over the plan
+
+Act 2 — Fallout
+Act now or the bridge falls.
+TONE: desperate
+
+# Act Three
+1. Tom escapes across the river`;
+
+describe('parseStoryMap', () => {
+    it('reads acts, beats and tones', () => {
+        const story = parseStoryMap(STORY)!;
+        expect(story.acts.map(act => act.title)).toEqual(['The Heist', 'Fallout', '']);
+        expect(story.beats.map(beat => [beat.id, beat.tone, beat.toneDeclared])).toEqual([
+            ['1.1', 'calm', true],
+            ['1.2', expect.any(String), false],
+            ['2.1', 'desperate', true],
+            ['3.1', 'triumphant', false],
+        ]);
+    });
+
+    it('keeps a beat that starts with the word act in its act', () => {
+        const story = parseStoryMap('ACT 1\n- The alarm sounds\n\nAct now or the bridge falls.')!;
+        expect(story.acts).toHaveLength(1);
+        expect(story.beats.map(beat => beat.text)).toEqual(['The alarm sounds', 'Act now or the bridge falls.']);
+    });
+
+    it('returns null without beats', () => {
+        expect(parseStoryMap('ACT 1\n\n# ACT 2\n')).toBeNull();
+    });
+});
+
+const sidecar = (body: string): ParsedSidecar =>
+    ({ fileName: '', raw: body, legacy: true, characters: [], tags: [], fields: {}, body, scriptLine: '', problems: [] });
+
+describe('alignFramesToBeats', () => {
+    const story = parseStoryMap('- Jane robs the bank\n- The police chase the crew\n- Tom escapes across the river') as StoryStructure;
+
+    it('follows the wording without going back in the story', () => {
+        const sidecars = {
+            'scene1.png': sidecar('Jane walks into the bank.'),
+            'scene2.png': sidecar('Sirens. The police chase them.'),
+            'scene3.png': sidecar('Close on Jane.'),
+            'scene4.png': sidecar('Tom swims across the river.'),
+        };
+        expect(alignFramesToBeats(Object.keys(sidecars), sidecars, story)).toEqual({
+            'scene1.png': '1.1',
+            'scene2.png': '1.2',
+            'scene3.png': '1.2',
+            'scene4.png': '1.3',
+        });
+    });
+
+    it('spreads frames without text over the beats in order', () => {
+        const frames = ['a.png', 'b.png', 'c.png'];
+        const aligned = alignFramesToBeats(frames, {}, story);
+        expect(frames.map(frame => aligned[frame])).toEqual(['1.1', '1.2', '1.3']);
+    });
+});
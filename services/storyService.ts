@@ -0,0 +1,222 @@
+import { ParsedSidecar } from './sidecarService';
+
+/**
+ * `story.txt` as structure: acts made of beats, each with an emotional tone.
+ * Frames are aligned to beats in order, so a frame's prompt gets the beat it
+ * belongs to instead of the whole file.
+ *
+ * Layout is forgiving. `ACT n` lines (a number, roman numeral or word) and
+ * markdown headings start acts; bullet or numbered lines, or paragraphs, are
+ * beats. A tone is written as a trailing `[tense]`, `(tone: tense)` or a
+ * `TONE: tense` line after the beat; beats without one get a tone inferred
+ * from their wording.
+ */
+
+export interface StoryBeat {
+    /** `act.beat`, 1-based, e.g. "2.3". */
+    id: string;
+    /** Index into `acts`. */
+    act: number;
+    text: string;
+    tone: string;
+    /** False when the tone was inferred rather than written in story.txt. */
+    toneDeclared: boolean;
+}
+
+export interface StoryAct {
+    /** Heading text after any `ACT n` prefix; empty when the act is untitled. */
+    title: string;
+    beats: StoryBeat[];
+}
+
+export interface StoryStructure {
+    acts: StoryAct[];
+    /** Every beat in story order. */
+    beats: StoryBeat[];
+}
+
+/** `act` and its number, so a beat such as "Act now or the bridge falls" is not a heading. */
+const ACT_NUMBER = String.raw`act\s+(?:\d+|(?=[ivx])x{0,3}(?:ix|iv|v?i{0,3})|one|two|three|four|five|six|seven|eight|nine|ten)\b`;
+const ACT_HEADING = new RegExp(`^(?:#{1,6}\\s*(.*)|(${ACT_NUMBER}.*))$`, 'i');
+const BEAT_MARKER = /^(?:[-*•]|\d+[.)]|beat\b\s*\d*\s*[:.-]?)\s+/i;
+const TRAILING_TONE = /\s*[[(](?:tone:\s*)?([^\])]+)[\])]\s*$/i;
+const TONE_LINE = /^tone:\s*(.+)$/i;
+const ACT_PREFIX = new RegExp(`^${ACT_NUMBER}\\s*[:.\\-–—]?\\s*`, 'i');
+
+/** Keyword lists for inferring a tone; the tone with most hits wins. */
+const TONE_WORDS: Record<string, string[]> = {
+    tense: ['threat', 'gun', 'alone', 'danger', 'chase', 'fight', 'confront', 'warn', 'trap', 'ambush', 'standoff', 'demand'],
+    fearful: ['fear', 'afraid', 'terrified', 'scream', 'horror', 'panic', 'flee', 'hide', 'dread'],
+    somber: ['death', 'dies', 'dead', 'funeral', 'loss', 'grief', 'mourn', 'alone', 'regret', 'goodbye'],
+    mysterious: ['secret', 'mystery', 'discover', 'clue', 'hidden', 'stranger', 'unknown', 'investigate'],
+    romantic: ['love', 'kiss', 'romance', 'embrace', 'longing', 'date'],
+    joyful: ['celebrate', 'laugh', 'wedding', 'joy', 'party', 'reunion', 'happy'],
+    triumphant: ['win', 'victory', 'escape', 'triumph', 'rescue', 'defeat', 'freedom', 'justice'],
+    calm: ['morning', 'quiet', 'peace', 'rest', 'home', 'routine', 'dawn'],
+};
+
+export const NEUTRAL_TONE = 'neutral';
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'out', 'her', 'his', 'him', 'she', 'they', 'them', 'their', 'are', 'was', 'were', 'has', 'have', 'had', 'but', 'not', 'you', 'your', 'our', 'who', 'what', 'when', 'then', 'than', 'there', 'its', 'all', 'one', 'over', 'about']);
+
+const words = (text: string) => text.toLowerCase().match(/[a-z0-9']{3,}/g)?.filter(w => !STOP_WORDS.has(w)) || [];
+
+export function inferTone(text: string): string {
+    const found = new Set(words(text));
+    let best = NEUTRAL_TONE;
+    let bestHits = 0;
+    for (const [tone, list] of Object.entries(TONE_WORDS)) {
+        const hits = list.filter(word => found.has(word) || [...found].some(w => w.startsWith(word))).length;
+        if (hits > bestHits) {
+            best = tone;
+            bestHits = hits;
+        }
+    }
+    return best;
+}
+
+/** Parses story.txt; null when it holds no beats. */
+export function parseStoryMap(content: string): StoryStructure | null {
+    const acts: { title: string; beats: { text: string; tone: string | null }[] }[] = [];
+    let current: typeof acts[number] | null = null;
+    // A plain line continues the previous beat unless a blank line or heading came between.
+    let open = false;
+
+    const act = () => {
+        if (!current) {
+            current = { title: '', beats: [] };
+            acts.push(current);
+        }
+        return current;
+    };
+
+    for (const raw of content.split(/\r?\n/)) {
+        const line = raw.trim();
+        if (!line) {
+            open = false;
+            continue;
+        }
+        const heading = line.match(ACT_HEADING);
+        if (heading) {
+            current = { title: (heading[1] ?? heading[2]).trim().replace(ACT_PREFIX, ''), beats: [] };
+            acts.push(current);
+            open = false;
+            continue;
+        }
+        const toneLine = line.match(TONE_LINE);
+        const beats = act().beats;
+        if (toneLine && beats.length > 0) {
+            beats[beats.length - 1].tone = toneLine[1].trim().toLowerCase();
+            continue;
+        }
+        const marked = BEAT_MARKER.test(line);
+        let text = line.replace(BEAT_MARKER, '');
+        let tone: string | null = null;
+        const trailing = text.match(TRAILING_TONE);
+        if (trailing) {
+            tone = trailing[1].trim().toLowerCase();
+            text = text.slice(0, trailing.index).trim();
+        }
+        if (!marked && open && beats.length > 0) {
+            const last = beats[beats.length - 1];
+            last.text = `${last.text} ${text}`.trim();
+            last.tone = tone ?? last.tone;
+        } else if (text) {
+            beats.push({ text, tone });
+        }
+        open = true;
+    }
+
+    const structure: StoryStructure = { acts: [], beats: [] };
+    acts.filter(a => a.beats.length > 0).forEach((a, actIndex) => {
+        const beats = a.beats.map<StoryBeat>((beat, beatIndex) => ({
+            id: `${actIndex + 1}.${beatIndex + 1}`,
+            act: actIndex,
+            text: beat.text,
+            tone: beat.tone || inferTone(beat.text),
+            toneDeclared: !!beat.tone,
+        }));
+        structure.acts.push({ title: a.title, beats });
+        structure.beats.push(...beats);
+    });
+    return structure.beats.length > 0 ? structure : null;
+}
+
+/** How strongly frame order should pull a frame toward the proportional beat, against word overlap. */
+const POSITION_WEIGHT = 0.5;
+
+/** Cosine similarity of the two texts' word sets. */
+function overlap(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    a.forEach(word => {
+        if (b.has(word)) shared++;
+    });
+    return shared / Math.sqrt(a.size * b.size);
+}
+
+const sceneWords = (sidecar?: ParsedSidecar) =>
+    new Set(sidecar ? words([sidecar.body, ...sidecar.characters, ...sidecar.tags].join(' ')) : []);
+
+/**
+ * Assigns each frame (in frame order) a beat, never going back in the story.
+ * Each pairing scores its word overlap plus how close the frame's position
+ * is to the beat's; the best-scoring non-decreasing assignment wins.
+ */
+export function alignFramesToBeats(frames: string[], sidecars: Record<string, ParsedSidecar>, story: StoryStructure): Record<string, string> {
+    const n = frames.length;
+    const m = story.beats.length;
+    if (n === 0 || m === 0) return {};
+
+    const beatWords = story.beats.map(beat => new Set(words(beat.text)));
+    const frameWords = frames.map(frame => sceneWords(sidecars[frame]));
+    const score = (i: number, j: number) =>
+        overlap(frameWords[i], beatWords[j]) + POSITION_WEIGHT * (1 - Math.abs((i + 0.5) / n - (j + 0.5) / m));
+
+    // best[i][j]: best total for frames 0..i with frame i on beat j; from[i][j]: beat of frame i-1 on that path.
+    const best: Float64Array[] = [];
+    const from: Int32Array[] = [];
+    for (let i = 0; i < n; i++) {
+        best.push(new Float64Array(m));
+        from.push(new Int32Array(m));
+        let runMax = -Infinity;
+        let runArg = 0;
+        for (let j = 0; j < m; j++) {
+            if (i > 0 && best[i - 1][j] > runMax) {
+                runMax = best[i - 1][j];
+                runArg = j;
+            }
+            best[i][j] = score(i, j) + (i > 0 ? runMax : 0);
+            from[i][j] = runArg;
+        }
+    }
+
+    const aligned: Record<string, string> = {};
+    let j = best[n - 1].reduce((arg, value, k, row) => (value > row[arg] ? k : arg), 0);
+    for (let i = n - 1; i >= 0; i--) {
+        aligned[frames[i]] = story.beats[j].id;
+        j = from[i][j];
+    }
+    return aligned;
+}
+
+/** The automatic alignment with the operator's corrections applied; corrections naming unknown beats are dropped. */
+export function resolveFrameBeats(aligned: Record<string, string>, overrides: Record<string, string>, story: StoryStructure | null): Record<string, string> {
+    if (!story) return {};
+    const known = new Set(story.beats.map(beat => beat.id));
+    return { ...aligned, ...Object.fromEntries(Object.entries(overrides).filter(([frame, id]) => frame in aligned && known.has(id))) };
+}
+
+export const findBeat = (story: StoryStructure | null, id: string | null | undefined) =>
+    (story && id ? story.beats.find(beat => beat.id === id) : undefined);
+
+/** The beat's place in the story, its tone and text, for a frame's prompt. */
+export function formatBeat(story: StoryStructure, id: string): string | null {
+    const beat = findBeat(story, id);
+    if (!beat) return null;
+    const act = story.acts[beat.act];
+    return `ACT ${beat.act + 1} OF ${story.acts.length}${act.title ? ` (${act.title})` : ''}, BEAT ${beat.id}. TONE: ${beat.tone}. ${beat.text}`;
+}
+
+/** One-line label for metadata and tables, e.g. `2.3 (tense)`. */
+export const beatLabel = (beat: StoryBeat) => `${beat.id} (${beat.tone})`;
@@ -0,0 +1,77 @@
+/**
+ * Style presets. The project has a base style (the default, or `style.txt`
+ * from the archive); named presets replace it for ranges of frames or for
+ * scenes whose sidecar carries a tag, so flashbacks, dreams and night
+ * exteriors can each get their own look.
+ */
+
+export interface StylePreset {
+    id: string;
+    name: string;
+    style: string;
+}
+
+/** Frames `from`..`to` inclusive, in frame order, or every frame whose sidecar has `tag`. */
+export type StyleRule =
+    | { kind: 'range'; presetId: string; from: string; to: string }
+    | { kind: 'tag'; presetId: string; tag: string };
+
+export interface StyleLibrary {
+    presets: StylePreset[];
+    rules: StyleRule[];
+}
+
+/** Base style when the archives carry no `style.txt`. */
+export const DEFAULT_BASE_STYLE = "cinematic film grain, high-key lighting, vibrant reds and deep blacks.";
+
+export const DEFAULT_STYLE_LIBRARY: StyleLibrary = {
+    presets: [
+        { id: 'flashback', name: 'Flashback', style: 'faded 16mm film, warm sepia cast, soft halation, lifted blacks, gentle vignette.' },
+        { id: 'dream', name: 'Dream sequence', style: 'hazy soft focus, bloom on highlights, desaturated pastels, slow dreamlike depth of field.' },
+        { id: 'night-exterior', name: 'Night exterior', style: 'low-key night photography, sodium-vapour street light, deep blue shadows, wet reflective surfaces.' },
+    ],
+    rules: [],
+};
+
+/** The style that applies to a frame; `preset` is null when the base style applies. */
+export interface FrameStyle {
+    preset: string | null;
+    style: string;
+}
+
+/** A unique id for a new preset, derived from its name. */
+export function presetId(name: string, library: StyleLibrary): string {
+    const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'preset';
+    let id = base;
+    for (let n = 2; library.presets.some(p => p.id === id); n++) id = `${base}-${n}`;
+    return id;
+}
+
+const ruleMatches = (rule: StyleRule, frame: string, frames: string[], tags: string[]) => {
+    if (rule.kind === 'tag') return tags.includes(rule.tag.trim().toLowerCase());
+    const index = frames.indexOf(frame);
+    const [from, to] = [frames.indexOf(rule.from), frames.indexOf(rule.to)].sort((a, b) => a - b);
+    return index !== -1 && from !== -1 && index >= from && index <= to;
+};
+
+/**
+ * Resolves a frame's style. Tag rules beat frame ranges; among rules of the
+ * same kind the last one wins. Rules naming a deleted preset are ignored.
+ * @param frames Every frame name in frame order.
+ * @param tags The frame's sidecar tags, lower-cased.
+ */
+export function resolveFrameStyle(library: StyleLibrary, frame: string, frames: string[], tags: string[], baseStyle: string): FrameStyle {
+    const matching = (kind: StyleRule['kind']) => library.rules
+        .filter(rule => rule.kind === kind && ruleMatches(rule, frame, frames, tags))
+        .map(rule => library.presets.find(p => p.id === rule.presetId))
+        .filter((preset): preset is StylePreset => Boolean(preset))
+        .pop();
+    const preset = matching('tag') || matching('range');
+    return preset ? { preset: preset.name, style: preset.style } : { preset: null, style: baseStyle };
+}
+
+/** "frames a.png–b.png → Flashback" / "tag night → Night exterior" for logs. */
+export function formatStyleRule(rule: StyleRule, library: StyleLibrary): string {
+    const preset = library.presets.find(p => p.id === rule.presetId)?.name || 'MISSING PRESET';
+    return rule.kind === 'tag' ? `tag ${rule.tag} → ${preset}` : `frames ${rule.from}–${rule.to} → ${preset}`;
+}
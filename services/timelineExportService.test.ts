@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { csvCell, toCmx3600, toEdlCsv } from './timelineExportService';
+import { TimelineSlide } from './timelineService';
+
+const slide: TimelineSlide = { sceneIndex: 0, start: 0, duration: 4, imageUrl: null, caption: { character: 'JANE', text: 'Line one\rline two' } };
+
+describe('timeline exports', () => {
+    it('names clips after the files it is given', () => {
+        expect(toCmx3600([slide], ['frames/scene1_rejuvenated.png'])).toContain('* FROM CLIP NAME: frames/scene1_rejuvenated.png');
+    });
+
+    it('quotes CSV cells containing a carriage return', () => {
+        expect(csvCell('a\rb')).toBe('"a\rb"');
+        expect(toEdlCsv([slide], ['frames/scene1_rejuvenated.png'])).toContain('"Line one\rline two"');
+    });
+});
@@ -0,0 +1,110 @@
+import { TimelineSlide } from './timelineService';
+
+/**
+ * Editorial exports of a screening timeline: SRT and WebVTT caption tracks and
+ * an edit decision list (CMX3600 and CSV) for rebuilding the cut in an NLE.
+ * Record timecodes start at zero, so all files line up with the WebM export.
+ */
+
+export const EDL_FPS = 24;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+function clockTime(seconds: number, separator: ',' | '.'): string {
+    const ms = Math.round(seconds * 1000);
+    const h = Math.floor(ms / 3_600_000);
+    const m = Math.floor(ms / 60_000) % 60;
+    const s = Math.floor(ms / 1000) % 60;
+    return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+/** Non-drop-frame SMPTE timecode for a frame count. */
+export function frameTimecode(frames: number, fps = EDL_FPS): string {
+    const f = frames % fps;
+    const totalSeconds = Math.floor(frames / fps);
+    return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}:${pad(f)}`;
+}
+
+const captioned = (slides: TimelineSlide[]) => slides.filter(slide => slide.caption.text || slide.caption.character);
+
+const captionLine = (slide: TimelineSlide) =>
+    slide.caption.character && slide.caption.text ? `${slide.caption.character}: ${slide.caption.text}` : slide.caption.character || slide.caption.text;
+
+export function toSrt(slides: TimelineSlide[]): string {
+    return captioned(slides)
+        .map((slide, i) => `${i + 1}\n${clockTime(slide.start, ',')} --> ${clockTime(slide.start + slide.duration, ',')}\n${captionLine(slide)}\n`)
+        .join('\n');
+}
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function toWebVtt(slides: TimelineSlide[]): string {
+    const cues = captioned(slides).map(slide => {
+        const text = escapeVtt(slide.caption.text);
+        const body = slide.caption.character ? `<v ${escapeVtt(slide.caption.character)}>${text}` : text;
+        return `${clockTime(slide.start, '.')} --> ${clockTime(slide.start + slide.duration, '.')}\n${body}\n`;
+    });
+    return ['WEBVTT\n', ...cues].join('\n');
+}
+
+interface EdlEvent {
+    number: number;
+    frameName: string;
+    audioName: string;
+    recordIn: number;
+    recordOut: number;
+    slide: TimelineSlide;
+}
+
+const audioName = (audio?: Blob) => (audio instanceof File ? audio.name : audio ? 'scene audio' : '');
+
+/**
+ * Events on whole frames, cut from the rounded start of each slide so durations
+ * never drift. `frameNames` gives the clip name per scene index: the delivered
+ * output files, so an editor relinks to the production archive's frames.
+ */
+function edlEvents(slides: TimelineSlide[], frameNames: string[], fps: number): EdlEvent[] {
+    return slides.map((slide, i) => ({
+        number: i + 1,
+        frameName: frameNames[slide.sceneIndex] || `scene ${slide.sceneIndex}`,
+        audioName: audioName(slide.audio),
+        recordIn: Math.round(slide.start * fps),
+        recordOut: Math.round((slide.start + slide.duration) * fps),
+        slide,
+    }));
+}
+
+export function toCmx3600(slides: TimelineSlide[], frameNames: string[], title = 'SCREENING', fps = EDL_FPS): string {
+    const lines = [`TITLE: ${title}`, 'FCM: NON-DROP FRAME', ''];
+    const event = (number: number, track: string, length: number, recordIn: number, recordOut: number) =>
+        `${pad(number, 3)}  AX       ${track.padEnd(5)} C        ${frameTimecode(0, fps)} ${frameTimecode(length, fps)} ${frameTimecode(recordIn, fps)} ${frameTimecode(recordOut, fps)}`;
+
+    let number = 0;
+    for (const e of edlEvents(slides, frameNames, fps)) {
+        const length = e.recordOut - e.recordIn;
+        lines.push(event(++number, 'V', length, e.recordIn, e.recordOut), `* FROM CLIP NAME: ${e.frameName}`);
+        if (e.audioName) lines.push(event(++number, 'A', length, e.recordIn, e.recordOut), `* FROM CLIP NAME: ${e.audioName}`);
+        lines.push('');
+    }
+    return lines.join('\n');
+}
+
+export const csvCell = (value: string | number) => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toEdlCsv(slides: TimelineSlide[], frameNames: string[], fps = EDL_FPS): string {
+    const header = ['event', 'frame', 'audio', 'record_in', 'record_out', 'duration_frames', 'character', 'caption'];
+    const rows = edlEvents(slides, frameNames, fps).map(e => [
+        e.number,
+        e.frameName,
+        e.audioName,
+        frameTimecode(e.recordIn, fps),
+        frameTimecode(e.recordOut, fps),
+        e.recordOut - e.recordIn,
+        e.slide.caption.character,
+        e.slide.caption.text,
+    ]);
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { buildStoryboard, buildTimeline, IMAGE_SLIDE_SECONDS } from './timelineService';
+
+describe('buildTimeline', () => {
+    const audio = new Blob(['voice']);
+    const storyboard = buildStoryboard([
+        { sceneIndex: 0, imageUrl: 'a.png' },
+        { sceneIndex: 0, audioBlob: audio },
+        { sceneIndex: 1, imageUrl: 'b.png' },
+    ], { scene_elements: [] } as never);
+
+    it('shows each image for a full slide before its scene audio, as the player does', () => {
+        const slides = buildTimeline(storyboard, new Map([[audio, 2.5]]));
+        expect(slides.map(s => [s.start, s.duration, s.imageUrl, !!s.audio])).toEqual([
+            [0, IMAGE_SLIDE_SECONDS, 'a.png', false],
+            [IMAGE_SLIDE_SECONDS, 2.5, 'a.png', true],
+            [IMAGE_SLIDE_SECONDS + 2.5, IMAGE_SLIDE_SECONDS, 'b.png', false],
+        ]);
+    });
+
+    it('gives audio that could not be measured an image slide without the clip', () => {
+        const slides = buildTimeline(storyboard, new Map());
+        expect(slides[1]).toMatchObject({ duration: IMAGE_SLIDE_SECONDS, audio: undefined, imageUrl: 'a.png' });
+    });
+});
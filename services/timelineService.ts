@@ -0,0 +1,100 @@
+import { GeneratedAudio, GeneratedImage, SceneElement, Script } from '../types';
+
+/**
+ * Timing rules for a screening, shared by the player and the exporters so a
+ * file plays the same cut as the browser. Items run in scene order, as the
+ * player steps through them: an image shows for IMAGE_SLIDE_SECONDS, and an
+ * audio clip plays to its end with the last image still up.
+ */
+
+export const IMAGE_SLIDE_SECONDS = 4;
+export const MUSIC_VOLUME = 0.15;
+
+export type StoryboardItem = (GeneratedImage | GeneratedAudio) & {
+    sceneElement?: SceneElement;
+};
+
+export interface Caption {
+    character: string;
+    text: string;
+}
+
+export interface TimelineSlide {
+    sceneIndex: number;
+    start: number;
+    duration: number;
+    /** The image on screen, carried over from the last image item. */
+    imageUrl: string | null;
+    caption: Caption;
+    audio?: Blob;
+}
+
+export function buildStoryboard(items: (GeneratedImage | GeneratedAudio)[], script: Script): StoryboardItem[] {
+    return items
+        .map(item => ({ ...item, sceneElement: script.scene_elements[item.sceneIndex] }))
+        .sort((a, b) => a.sceneIndex - b.sceneIndex);
+}
+
+export function captionFor(element?: SceneElement): Caption {
+    if (element?.type === 'action') return { character: '', text: element.content || '' };
+    if (element?.type === 'dialogue_block') {
+        return {
+            character: element.character.toUpperCase(),
+            text: element.elements.find(e => e.type === 'dialogue')?.content || '',
+        };
+    }
+    return { character: '', text: '' };
+}
+
+/**
+ * Lays the storyboard out in seconds, one slide per item. Audio that could not
+ * be measured, which the player would stall on, gets an image slide's length
+ * and is dropped from the slide.
+ */
+export function buildTimeline(storyboard: StoryboardItem[], audioDurations: Map<Blob, number>): TimelineSlide[] {
+    const slides: TimelineSlide[] = [];
+    let start = 0;
+    let imageUrl: string | null = null;
+
+    storyboard.forEach(item => {
+        if ('imageUrl' in item) imageUrl = item.imageUrl;
+
+        const measured = 'audioBlob' in item ? audioDurations.get(item.audioBlob) : undefined;
+        const duration = measured && measured > 0 ? measured : IMAGE_SLIDE_SECONDS;
+        slides.push({
+            sceneIndex: item.sceneIndex,
+            start,
+            duration,
+            imageUrl,
+            caption: captionFor(item.sceneElement),
+            audio: 'audioBlob' in item && measured ? item.audioBlob : undefined,
+        });
+        start += duration;
+    });
+
+    return slides;
+}
+
+export const timelineLength = (slides: TimelineSlide[]) =>
+    slides.length === 0 ? 0 : slides[slides.length - 1].start + slides[slides.length - 1].duration;
+
+/** Decodes each clip once to read its length; clips that fail to decode are left out. */
+export async function measureAudioDurations(blobs: Blob[]): Promise<Map<Blob, number>> {
+    const durations = new Map<Blob, number>();
+    if (blobs.length === 0) return durations;
+    const audioContext = new AudioContext();
+    try {
+        for (const blob of blobs) {
+            if (durations.has(blob)) continue;
+            try {
+                const buffer = await audioContext.decodeAudioData(await blob.arrayBuffer());
+                durations.set(blob, buffer.duration);
+            } catch {
+                // Undecodable clips fall back to an image slide's length in buildTimeline.
+            }
+        }
+    } finally {
+        audioContext.close().catch(() => undefined);
+    }
+    return durations;
+}
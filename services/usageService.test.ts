@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { SourceImage } from '../types';
+import { bytesToBase64 } from './audioService';
+import { DEFAULT_CONSISTENCY_SETTINGS } from './consistencyService';
+import { DEFAULT_FRAME_FORMAT } from './frameFormatService';
+import { PipelineContext, produceFrames } from './pipeline';
+import { configureProvider, DEFAULT_STAGE_MODELS } from './providers';
+import { encodePlaceholderPng } from './providers/mockProvider';
+import { createRunControl } from './runControl';
+import { buildIngestReport } from './sidecarService';
+import { DEFAULT_STYLE_LIBRARY } from './styleService';
+import { averageFrameCost, configureCosts, DEFAULT_COST_SETTINGS, recordUsage, resetUsage, summarizeUsage, wouldExceedBudget } from './usageService';
+
+const usage = { inputTokens: 0, outputTokens: 100_000 };
+const image = 'gemini-2.5-flash-image'; // $30 per million output tokens, so $3 per call above
+
+describe('budget estimate', () => {
+    beforeEach(() => {
+        resetUsage();
+        configureCosts({ ...DEFAULT_COST_SETTINGS, budget: 10 });
+    });
+
+    it('averages completed frames only', () => {
+        recordUsage('image', image, usage, 'scene1.png');
+        recordUsage('image', image, usage, 'scene1.png');
+        recordUsage('image', image, usage, 'scene2.png');
+        expect(averageFrameCost([])).toBeNull();
+        expect(averageFrameCost(['scene1.png'])).toBeCloseTo(6);
+    });
+
+    it('exceeds the budget only past it', () => {
+        recordUsage('image', image, usage, 'scene1.png');
+        expect(wouldExceedBudget(7)).toBe(false);
+        expect(wouldExceedBudget(7.01)).toBe(true);
+        configureCosts({ ...DEFAULT_COST_SETTINGS, budget: 0 });
+        expect(wouldExceedBudget(1000)).toBe(false);
+    });
+});
+
+describe('produceFrames budget pause', () => {
+    const frames = ['scene1.png', 'scene2.png', 'scene3.png', 'scene4.png'];
+    const png = bytesToBase64(encodePlaceholderPng(16, 9, 1));
+    const context = (names: string[]): PipelineContext => ({
+        avatars: {},
+        processedImages: Object.fromEntries(names.map(fileName => [fileName, { fileName, base64: png, mimeType: 'image/png' } as SourceImage])),
+        report: buildIngestReport(names, names.map(name => ({ name: name.replace('.png', '.txt'), content: 'JANE: Hold the line.' }))),
+        bible: [],
+        cast: { characters: [], pinned: {}, frameSubjects: {} },
+        style: '',
+        styles: DEFAULT_STYLE_LIBRARY,
+        frameFormat: DEFAULT_FRAME_FORMAT,
+        consistency: { ...DEFAULT_CONSISTENCY_SETTINGS, enabled: false },
+        fullScript: null,
+        screenplay: null,
+        story: null,
+        beats: {},
+        conform: null,
+    });
+
+    beforeEach(() => {
+        configureProvider({ providerId: 'mock', models: { ...DEFAULT_STAGE_MODELS } });
+        configureCosts(DEFAULT_COST_SETTINGS);
+        resetUsage();
+    });
+
+    it('stops starting frames before parallel frames can pass the budget', async () => {
+        await produceFrames(context(['scene0.png']), { control: createRunControl(), concurrency: 1 });
+        const frameCost = summarizeUsage().run.cost;
+        resetUsage();
+
+        const budget = frameCost * 2.5;
+        configureCosts({ ...DEFAULT_COST_SETTINGS, budget });
+        const outcome = await produceFrames(context(frames), { control: createRunControl(), concurrency: frames.length });
+
+        expect(outcome.paused).toBe('BUDGET REACHED');
+        expect(outcome.results.filter(r => r.status === 'DONE')).toHaveLength(2);
+        expect(summarizeUsage().run.cost).toBeLessThanOrEqual(budget);
+    });
+});
@@ -0,0 +1,143 @@
+import { ModelStage, TokenUsage } from './providers';
+
+/**
+ * Token and cost accounting. Every model call's usage is recorded here with
+ * its stage, model and frame, priced from a per-model table, and rolled up per
+ * stage, per frame and for the run. Prices are estimates for planning, not a
+ * bill.
+ */
+
+export interface ModelPrice {
+    /** USD per million input tokens (text and images). */
+    inputPerMillion: number;
+    /** USD per million output tokens (including thinking and image/audio output). */
+    outputPerMillion: number;
+}
+
+export interface CostSettings {
+    /** Keyed by model name, so stages routed to the same model share a price. */
+    prices: Record<string, ModelPrice>;
+    /** USD for the whole run. 0 disables the cap. */
+    budget: number;
+}
+
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-3-pro-preview': { inputPerMillion: 2, outputPerMillion: 12 },
+    'gemini-3-flash-preview': { inputPerMillion: 0.5, outputPerMillion: 3 },
+    'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30 },
+    'gemini-2.5-flash-preview-tts': { inputPerMillion: 0.5, outputPerMillion: 10 },
+};
+
+export const DEFAULT_COST_SETTINGS: CostSettings = {
+    prices: DEFAULT_MODEL_PRICES,
+    budget: 0,
+};
+
+export interface UsageEntry {
+    stage: ModelStage;
+    model: string;
+    frame?: string;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+}
+
+export interface UsageTotals {
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+    calls: number;
+}
+
+export interface UsageSummary {
+    run: UsageTotals;
+    byStage: Partial<Record<ModelStage, UsageTotals>>;
+    byFrame: Record<string, UsageTotals>;
+}
+
+export type UsageListener = (entry: UsageEntry, summary: UsageSummary) => void;
+
+const emptyTotals = (): UsageTotals => ({ inputTokens: 0, outputTokens: 0, cost: 0, calls: 0 });
+
+let settings: CostSettings = DEFAULT_COST_SETTINGS;
+let entries: UsageEntry[] = [];
+let usageListener: UsageListener | null = null;
+
+export function configureCosts(next: CostSettings) {
+    settings = { budget: next.budget, prices: { ...DEFAULT_MODEL_PRICES, ...next.prices } };
+}
+
+export function getCostSettings(): CostSettings {
+    return settings;
+}
+
+export function setUsageListener(listener: UsageListener | null) {
+    usageListener = listener;
+}
+
+/** Unknown models are priced at zero and show up as such in the panel. */
+export function priceCall(model: string, usage: TokenUsage): number {
+    const price = settings.prices[model];
+    if (!price) return 0;
+    return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+}
+
+const add = (totals: UsageTotals, entry: UsageEntry) => {
+    totals.inputTokens += entry.inputTokens;
+    totals.outputTokens += entry.outputTokens;
+    totals.cost += entry.cost;
+    totals.calls += 1;
+};
+
+export function summarizeUsage(list: UsageEntry[] = entries): UsageSummary {
+    const summary: UsageSummary = { run: emptyTotals(), byStage: {}, byFrame: {} };
+    for (const entry of list) {
+        add(summary.run, entry);
+        add(summary.byStage[entry.stage] ??= emptyTotals(), entry);
+        if (entry.frame) add(summary.byFrame[entry.frame] ??= emptyTotals(), entry);
+    }
+    return summary;
+}
+
+export function recordUsage(stage: ModelStage, model: string, usage: TokenUsage, frame?: string) {
+    const entry: UsageEntry = { stage, model, frame, ...usage, cost: priceCall(model, usage) };
+    entries.push(entry);
+    usageListener?.(entry, summarizeUsage());
+}
+
+export function getUsageEntries(): UsageEntry[] {
+    return entries;
+}
+
+/** Starts a new run's ledger, optionally seeded with entries restored from a checkpoint. */
+export function resetUsage(restored: UsageEntry[] = []) {
+    entries = [...restored];
+}
+
+/** Everything spent on one frame so far, including regenerations. */
+export function frameUsage(frame: string): UsageTotals | undefined {
+    return summarizeUsage().byFrame[frame];
+}
+
+/**
+ * Mean cost of the given completed frames that were priced; null before the
+ * first. Frames still in flight are only partly billed, so leave them out.
+ */
+export function averageFrameCost(completed: string[]): number | null {
+    const byFrame = summarizeUsage().byFrame;
+    const costs = completed.flatMap(frame => (byFrame[frame] ? [byFrame[frame].cost] : []));
+    return costs.length === 0 ? null : costs.reduce((sum, cost) => sum + cost, 0) / costs.length;
+}
+
+/**
+ * Whether starting work expected to cost `nextCost` would take the run past
+ * its budget. Always false with no budget set.
+ */
+export function wouldExceedBudget(nextCost: number): boolean {
+    return settings.budget > 0 && summarizeUsage().run.cost + nextCost > settings.budget;
+}
+
+export const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+export const formatTokens = (count: number) =>
+    count >= 1_000_000 ? `${(count / 1_000_000).toFixed(2)}M` : count >= 1000 ? `${(count / 1000).toFixed(1)}K` : String(count);
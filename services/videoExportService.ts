@@ -0,0 +1,206 @@
+import { GeneratedAudio, GeneratedImage, Script } from '../types';
+import { buildStoryboard, buildTimeline, Caption, MUSIC_VOLUME, timelineLength, TimelineSlide } from './timelineService';
+
+/**
+ * Renders a screening to WebM entirely in the browser: slides are painted to a
+ * canvas, dialogue and background music are mixed through Web Audio, and
+ * MediaRecorder captures both. Recording runs in real time, so an export
+ * takes as long as the screening itself.
+ */
+
+export interface VideoExportOptions {
+    width?: number;
+    height?: number;
+    fps?: number;
+    onProgress?: (seconds: number, total: number) => void;
+    signal?: AbortSignal;
+}
+
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+export function isVideoExportSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined'
+        && typeof HTMLCanvasElement.prototype.captureStream === 'function'
+        && MIME_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+}
+
+const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load frame image.'));
+    image.src = url;
+});
+
+function wrapLines(g: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && g.measureText(candidate).width > maxWidth) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    }
+    if (line) lines.push(line);
+    return lines;
+}
+
+function drawCaption(g: CanvasRenderingContext2D, caption: Caption, width: number, height: number) {
+    if (!caption.character && !caption.text) return;
+    const size = Math.round(height / 30);
+    const pad = size * 1.5;
+    g.font = `${size}px sans-serif`;
+    const lines = wrapLines(g, caption.text, width - pad * 2).slice(-3);
+    const rows = lines.length + (caption.character ? 1 : 0);
+    const top = height - pad - rows * size * 1.3;
+
+    const shade = g.createLinearGradient(0, top - pad, 0, height);
+    shade.addColorStop(0, 'rgba(0,0,0,0)');
+    shade.addColorStop(0.4, 'rgba(0,0,0,0.6)');
+    shade.addColorStop(1, 'rgba(0,0,0,0.8)');
+    g.fillStyle = shade;
+    g.fillRect(0, top - pad, width, height - top + pad);
+
+    g.fillStyle = '#fff';
+    g.textBaseline = 'top';
+    g.shadowColor = 'rgba(0,0,0,0.8)';
+    g.shadowBlur = 4;
+    let y = top;
+    if (caption.character) {
+        g.font = `bold ${Math.round(size * 1.15)}px sans-serif`;
+        g.fillText(caption.character, pad, y);
+        y += size * 1.3;
+        g.font = `${size}px sans-serif`;
+    }
+    for (const line of lines) {
+        g.fillText(line, pad, y);
+        y += size * 1.3;
+    }
+    g.shadowBlur = 0;
+}
+
+function drawSlide(g: CanvasRenderingContext2D, slide: TimelineSlide, images: Map<string, HTMLImageElement>, width: number, height: number) {
+    g.fillStyle = '#000';
+    g.fillRect(0, 0, width, height);
+    const image = slide.imageUrl ? images.get(slide.imageUrl) : undefined;
+    if (image) {
+        // Same fit as the player's object-contain.
+        const scale = Math.min(width / image.naturalWidth, height / image.naturalHeight);
+        const w = image.naturalWidth * scale;
+        const h = image.naturalHeight * scale;
+        g.drawImage(image, (width - w) / 2, (height - h) / 2, w, h);
+    }
+    drawCaption(g, slide.caption, width, height);
+}
+
+export async function renderScreeningVideo(
+    items: (GeneratedImage | GeneratedAudio)[],
+    script: Script,
+    music: Blob[],
+    options: VideoExportOptions = {},
+): Promise<Blob> {
+    const { width = 1280, height = 720, fps = 30, onProgress, signal } = options;
+    const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) throw new Error('This browser cannot record WebM video.');
+
+    const audioContext = new AudioContext();
+    const decode = async (blob: Blob) => {
+        try {
+            return await audioContext.decodeAudioData(await blob.arrayBuffer());
+        } catch {
+            return null;
+        }
+    };
+
+    let recorder: MediaRecorder | null = null;
+    let stream: MediaStream | null = null;
+    try {
+        const storyboard = buildStoryboard(items, script);
+        const dialogue = new Map<Blob, AudioBuffer>();
+        for (const item of storyboard) {
+            if (!('audioBlob' in item) || dialogue.has(item.audioBlob)) continue;
+            const buffer = await decode(item.audioBlob);
+            if (buffer) dialogue.set(item.audioBlob, buffer);
+        }
+        const slides = buildTimeline(storyboard, new Map([...dialogue].map(([blob, buffer]) => [blob, buffer.duration])));
+        if (slides.length === 0) throw new Error('Nothing to render.');
+        const total = timelineLength(slides);
+
+        const images = new Map<string, HTMLImageElement>();
+        for (const url of new Set(slides.map(s => s.imageUrl).filter((u): u is string => !!u))) {
+            images.set(url, await loadImage(url));
+        }
+        const musicBuffers = (await Promise.all(music.map(decode))).filter((b): b is AudioBuffer => !!b && b.duration > 0);
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const g = canvas.getContext('2d')!;
+        drawSlide(g, slides[0], images, width, height);
+
+        const destination = audioContext.createMediaStreamDestination();
+        const musicGain = audioContext.createGain();
+        musicGain.gain.value = MUSIC_VOLUME;
+        musicGain.connect(destination);
+
+        stream = new MediaStream([...canvas.captureStream(fps).getVideoTracks(), ...destination.stream.getAudioTracks()]);
+        const chunks: Blob[] = [];
+        recorder = new MediaRecorder(stream, { mimeType });
+        recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+        const stopped = new Promise<void>(resolve => { recorder!.onstop = () => resolve(); });
+
+        await audioContext.resume();
+        recorder.start(1000);
+        const t0 = audioContext.currentTime + 0.1;
+
+        for (const slide of slides) {
+            const buffer = slide.audio && dialogue.get(slide.audio);
+            if (!buffer) continue;
+            const source = audioContext.createBufferSource();
+            source.buffer = buffer;
+            source.connect(destination);
+            source.start(t0 + slide.start);
+        }
+
+        // Music tracks play back to back, cycling, until the picture ends.
+        for (let at = 0, i = 0; musicBuffers.length > 0 && at < total; i++) {
+            const buffer = musicBuffers[i % musicBuffers.length];
+            const source = audioContext.createBufferSource();
+            source.buffer = buffer;
+            source.connect(musicGain);
+            source.start(t0 + at);
+            source.stop(t0 + total);
+            at += buffer.duration;
+        }
+
+        await new Promise<void>((resolve, reject) => {
+            const timer = window.setInterval(() => {
+                if (signal?.aborted) {
+                    window.clearInterval(timer);
+                    reject(new DOMException('Video export cancelled.', 'AbortError'));
+                    return;
+                }
+                const t = audioContext.currentTime - t0;
+                if (t >= total) {
+                    window.clearInterval(timer);
+                    resolve();
+                    return;
+                }
+                const slide = slides.find(s => t < s.start + s.duration) || slides[slides.length - 1];
+                drawSlide(g, slide, images, width, height);
+                onProgress?.(Math.max(0, t), total);
+            }, 1000 / fps);
+        });
+
+        recorder.stop();
+        await stopped;
+        onProgress?.(total, total);
+        return new Blob(chunks, { type: 'video/webm' });
+    } finally {
+        if (recorder && recorder.state !== 'inactive') recorder.stop();
+        stream?.getTracks().forEach(track => track.stop());
+        audioContext.close().catch(() => undefined);
+    }
+}
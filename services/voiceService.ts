@@ -0,0 +1,106 @@
+import { AnalyzedCharacter, GeneratedAudio, Script } from '../types';
+import { findBibleEntry } from './bibleService';
+import { normalizeName } from './castService';
+import { generateDialogueAudio } from './geminiService';
+import { toPlayableAudio } from './audioService';
+import { mapConcurrent } from './scheduler';
+
+/**
+ * Voice stage: speaks every dialogue_block of a script and returns the clips as
+ * GeneratedAudio keyed by scene index. Each character keeps one voice for the
+ * whole run, chosen from the bible so the same cast always sounds the same.
+ */
+
+/** Prebuilt TTS voices, split by register so the bible's gender can steer the pick. */
+const VOICE_POOLS: Record<'male' | 'female' | 'unknown', string[]> = {
+    male: ['Charon', 'Fenrir', 'Orus', 'Iapetus', 'Algenib', 'Puck'],
+    female: ['Kore', 'Aoede', 'Leda', 'Callirrhoe', 'Despina', 'Zephyr'],
+    unknown: ['Achird', 'Sulafat', 'Umbriel', 'Enceladus'],
+};
+
+export interface VoiceProfile {
+    character: string;
+    voice: string;
+    /** Voice and dialogue style from the bible, given to the model on every line. */
+    description: string;
+}
+
+export interface DialogueLine {
+    sceneIndex: number;
+    character: string;
+    text: string;
+    /** Parentheticals, joined; empty when the script gives no direction. */
+    direction: string;
+}
+
+export interface VoiceStageResult {
+    audio: GeneratedAudio[];
+    failures: { line: DialogueLine; error: unknown }[];
+}
+
+const poolFor = (entry?: AnalyzedCharacter) => {
+    const gender = entry?.gender.toLowerCase() || '';
+    return gender.startsWith('f') ? VOICE_POOLS.female : gender.startsWith('m') ? VOICE_POOLS.male : VOICE_POOLS.unknown;
+};
+
+export function dialogueLines(script: Script): DialogueLine[] {
+    return script.scene_elements.flatMap((element, sceneIndex) => {
+        if (element.type !== 'dialogue_block') return [];
+        const text = element.elements.filter(e => e.type === 'dialogue').map(e => e.content).join(' ').trim();
+        if (!text) return [];
+        const direction = element.elements.filter(e => e.type === 'parenthetical').map(e => e.content.replace(/^\(|\)$/g, '').trim()).join('; ');
+        return [{ sceneIndex, character: element.character, text, direction }];
+    });
+}
+
+/**
+ * One profile per speaking character. Voices are handed out in bible order,
+ * cycling through the matching pool, so a re-run assigns the same voices.
+ */
+export function buildVoiceProfiles(bible: AnalyzedCharacter[], speakers: string[]): Map<string, VoiceProfile> {
+    const profiles = new Map<string, VoiceProfile>();
+    const used = new Map<string[], number>();
+    const ordered = [
+        ...bible.map(entry => entry.name),
+        ...speakers.filter(name => !findBibleEntry(bible, name)),
+    ];
+    for (const name of ordered) {
+        const key = normalizeName(name);
+        if (profiles.has(key)) continue;
+        const entry = findBibleEntry(bible, name);
+        const pool = poolFor(entry);
+        const turn = used.get(pool) ?? 0;
+        used.set(pool, turn + 1);
+        const voice = pool[turn % pool.length];
+        const description = [entry?.voiceDescription, entry?.dialogueStyle && `Speaks: ${entry.dialogueStyle}`].filter(Boolean).join('. ');
+        profiles.set(key, { character: entry?.name || name, voice, description });
+    }
+    return profiles;
+}
+
+export async function generateVoiceTrack(
+    script: Script,
+    bible: AnalyzedCharacter[],
+    concurrency: number,
+    onLine?: (line: DialogueLine, error?: unknown) => void,
+): Promise<VoiceStageResult> {
+    const lines = dialogueLines(script);
+    const profiles = buildVoiceProfiles(bible, lines.map(line => line.character));
+    const audio: GeneratedAudio[] = [];
+    const failures: VoiceStageResult['failures'] = [];
+
+    await mapConcurrent(lines, concurrency, async line => {
+        const profile = profiles.get(normalizeName(line.character))!;
+        try {
+            const clip = await generateDialogueAudio(line.text, line.direction, profile.voice, profile.description);
+            audio.push({ sceneIndex: line.sceneIndex, audioBlob: toPlayableAudio(clip.data, clip.mimeType) });
+            onLine?.(line);
+        } catch (error) {
+            failures.push({ line, error });
+            onLine?.(line, error);
+        }
+    });
+
+    audio.sort((a, b) => a.sceneIndex - b.sceneIndex);
+    return { audio, failures };
+}
@@ -22,14 +22,114 @@ export interface StoryElements {
     today: string;
 }
 
+/**
+ * One entry of the structured Character Bible.
+ */
 export interface AnalyzedCharacter {
     name: string;
     gender: 'male' | 'female' | 'unknown';
     race?: string;
+    /** Skin tone, hair, distinct facial features and overall vibe. */
+    visualTraits: string;
+    /** Avatar the bible associates with this character; the cast table can still override it. */
+    avatarFilename: string | null;
+    dialogueStyle: string;
     voiceDescription?: string;
     otherDescriptors?: string;
 }
+
+export type SourceImage = { fileName: string; base64: string; mimeType: string };
+export type TextFile = { name: string; content: string };
+
+export type RunStage = 'IDLE' | 'VALIDATING' | 'ANALYZING' | 'MAPPING' | 'PLANNING' | 'PLANNED' | 'PROCESSING' | 'PAUSED' | 'CANCELLED' | 'FAILED' | 'COMPLETE';
+
+/** Why a run stopped in PAUSED, CANCELLED or FAILED, and the stage to pick up again. */
+export interface RunInterruption {
+    stage: RunStage;
+    reason: string;
+}
+
+export type FrameStatus = 'DONE' | 'FAILED' | 'SKIPPED';
+
+export type ReviewDecision = 'PENDING' | 'ACCEPTED' | 'REJECTED';
+
+export interface RejuvenatedItem {
+    originalName: string;
+    newName: string;
+    base64: string | null;
+    prompt: string;
+    characterName: string;
+    avatarFilename: string | null;
+    status: FrameStatus;
+    /** Why the frame failed, when status is FAILED. */
+    error?: string;
+    /** Editor decision; only ACCEPTED frames go into the final export. */
+    review?: ReviewDecision;
+    consistency?: ConsistencyScore;
+    /** Prompt templates used for this frame, as "name@version". */
+    templates?: string[];
+    /** Everyone replaced in the frame, subject first. */
+    identities?: IdentityAssignment[];
+    /** Tokens and estimated cost of every model call made for this frame. */
+    usage?: FrameUsage;
+    /** Style preset the prompt was written in; absent for the base style. */
+    stylePreset?: string;
+    /** Story beat the frame was aligned to, e.g. "2.3". */
+    beat?: string;
+    meta: string;
+}
+
+/** Where a character is in the frame: a named region, or a box in 0–1 frame coordinates from the top left. */
+export type ScreenPosition =
+    | 'auto' | 'left' | 'center' | 'right' | 'foreground' | 'background'
+    | { x: number; y: number; width: number; height: number };
+
+/** One person on screen and the avatar that replaces them; no avatar leaves them as drawn. */
+export interface IdentityAssignment {
+    characterName: string;
+    avatarFilename: string | null;
+    position: ScreenPosition;
+}
+
+export interface FrameUsage {
+    inputTokens: number;
+    outputTokens: number;
+    /** USD, priced from the cost table when the calls were made. */
+    cost: number;
+}
+
+/**
+ * Automatic check of a generated frame. Scores run 0–1; a component is null
+ * when it could not be measured (no avatar, no finished neighbours).
+ */
+export interface ConsistencyScore {
+    /** Output vs avatar, judged by the vision model. */
+    identity: number | null;
+    /** Output vs neighbouring outputs, by colour histogram. */
+    style: number | null;
+    /** The weaker of the two; this is what the threshold applies to. */
+    score: number | null;
+    /** Generations it took, including automatic regenerations. */
+    attempts: number;
+    flagged: boolean;
+    notes?: string;
+}
+
+/**
+ * Editor-controlled casting that overrides the model's guesses.
+ */
+export interface CastMapping {
+    /** Characters listed in the cast table. */
+    characters: string[];
+    /** Character name → avatar filename. Always wins over the model. */
+    pinned: Record<string, string>;
+    /** Frame filename → character forced as that frame's subject. */
+    frameSubjects: Record<string, string>;
+}
+
 // FIX: Added missing type definitions for PresentationPlayer component.
+export type GeneratedImage = { sceneIndex: number; imageUrl: string };
+
 export interface GeneratedAudio {
     sceneIndex: number;
     audioBlob: Blob;
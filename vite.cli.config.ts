@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+/** Builds the `bs14` command-line runner into dist-cli/bs14.js for Node. */
+export default defineConfig({
+    build: {
+        ssr: 'cli/bs14.ts',
+        outDir: 'dist-cli',
+        target: 'node20',
+        emptyOutDir: true,
+        rollupOptions: {
+            output: {
+                entryFileNames: 'bs14.js',
+                banner: '#!/usr/bin/env node',
+            },
+        },
+    },
+});